@@ -10,6 +10,7 @@
  */
 
 import { GitHubService } from '../services/github';
+import { GitHubAppAuth } from '../services/github-app-auth';
 import { CodeReviewService } from '../services/code-reviewer';
 import { AIClient } from '../services/ai-client';
 import { GeminiClient } from '../services/gemini-client';
@@ -17,6 +18,19 @@ import { DeepSeekClient } from '../services/deepseek-client';
 import { Logger } from '../utils/logger';
 import { AIResponseParser } from '../utils/ai-response-parser';
 import { DiffProcessor } from '../utils/diff-processor';
+import { ReviewQueue } from '../services/review-queue';
+import { renderPreviewMarkdown } from '../services/review-publisher';
+import { ReviewProgress } from '../services/review-progress';
+import { ReviewCancelledError } from '../utils/errors';
+import { DeliveryLedger } from '../services/delivery-ledger';
+import { RepositoryRegistry } from '../services/repository-registry';
+import { PullRequestSettingsService } from '../services/pull-request-settings';
+import { FollowUpService } from '../services/follow-up';
+import { RepositoryConfigLoader } from '../services/repository-config-loader';
+import { HealthChecker } from '../services/health-checker';
+import { AdminReviewService } from '../services/admin-reviews';
+import { createStateStore } from '../utils/state-store';
+import { AIProvider, DeliveryRecord, EnabledRepository, PullRequestSettings, ReviewJob } from '../types';
 import config from '../utils/config';
 
 /**
@@ -24,11 +38,20 @@ import config from '../utils/config';
  */
 export interface ServiceRegistry {
   logger: Logger;
+  githubAppAuth: GitHubAppAuth;
   githubService: GitHubService;
   aiClient: AIClient;
   aiResponseParser: AIResponseParser;
   diffProcessor: DiffProcessor;
   codeReviewService: CodeReviewService;
+  reviewQueue: ReviewQueue;
+  deliveryLedger: DeliveryLedger;
+  repositoryRegistry: RepositoryRegistry;
+  pullRequestSettings: PullRequestSettingsService;
+  followUpService: FollowUpService;
+  repositoryConfigLoader: RepositoryConfigLoader;
+  healthChecker: HealthChecker;
+  adminReviewService: AdminReviewService;
 }
 
 /**
@@ -39,6 +62,8 @@ export interface ServiceRegistry {
  */
 export class Container {
   private services: Partial<ServiceRegistry> = {};
+  private providerClients = new Map<AIProvider, AIClient>();
+  private reviewProgress = new Map<string, ReviewProgress>();
 
   /**
    * Gets or creates a Logger instance
@@ -52,19 +77,42 @@ export class Container {
     return this.services.logger;
   }
 
+  /**
+   * Gets or creates the GitHubAppAuth instance
+   *
+   * @returns GitHubAppAuth instance, or undefined when authenticating with a token
+   */
+  getGitHubAppAuth(): GitHubAppAuth | undefined {
+    if (config.GITHUB_AUTH_MODE !== 'app') {
+      return undefined;
+    }
+    if (!this.services.githubAppAuth) {
+      this.services.githubAppAuth = new GitHubAppAuth(
+        config.GITHUB_APP_ID!,
+        config.GITHUB_PRIVATE_KEY!,
+        this.getLogger(),
+        undefined, // Use default Octokit factory
+        config.GITHUB_APP_SLUG
+      );
+    }
+    return this.services.githubAppAuth;
+  }
+
   /**
    * Gets or creates a GitHubService instance
    * 
+   * @param installationId - GitHub App installation to authenticate as (ignored in token mode)
    * @returns GitHubService instance with logger dependency
    */
-  getGitHubService(): GitHubService {
+  getGitHubService(installationId?: number): GitHubService {
     if (!this.services.githubService) {
       this.services.githubService = new GitHubService(
         undefined, // Use default Octokit instance
-        this.getLogger()
+        this.getLogger(),
+        this.getGitHubAppAuth()
       );
     }
-    return this.services.githubService;
+    return this.services.githubService.forInstallation(installationId);
   }
 
   /**
@@ -117,6 +165,31 @@ export class Container {
     return this.services.aiClient;
   }
 
+  /**
+   * Gets an AIClient for a specific provider, e.g. for a per-review override
+   *
+   * @param provider - Provider to use; the configured client is returned when omitted
+   * @returns AIClient instance for the provider
+   * @throws Error if the provider's API key is not configured
+   */
+  getAIClientFor(provider?: AIProvider): AIClient {
+    const defaultClient = this.getAIClient();
+    if (!provider || defaultClient.provider === provider) {
+      return defaultClient;
+    }
+
+    let client = this.providerClients.get(provider);
+    if (!client) {
+      const apiKey = provider === 'gemini' ? config.GEMINI_API_KEY : config.DEEPSEEK_API_KEY;
+      if (!apiKey) {
+        throw new Error(`${provider.toUpperCase()}_API_KEY is not set; cannot use the ${provider} provider`);
+      }
+      client = provider === 'gemini' ? new GeminiClient(apiKey) : new DeepSeekClient(apiKey);
+      this.providerClients.set(provider, client);
+    }
+    return client;
+  }
+
   /**
    * Gets or creates an AIResponseParser instance
    * 
@@ -144,9 +217,23 @@ export class Container {
   /**
    * Gets or creates a CodeReviewService instance
    * 
+   * @param installationId - GitHub App installation the review runs as
+   * @param provider - AI provider override
    * @returns CodeReviewService instance with all dependencies injected
    */
-  getCodeReviewService(): CodeReviewService {
+  getCodeReviewService(installationId?: number, provider?: AIProvider): CodeReviewService {
+    const githubService = this.getGitHubService(installationId);
+    const aiClient = this.getAIClientFor(provider);
+    if (githubService !== this.getGitHubService() || aiClient !== this.getAIClient()) {
+      return new CodeReviewService(
+        githubService,
+        aiClient,
+        this.getAIResponseParser(),
+        this.getLogger(),
+        this.getDiffProcessor()
+      );
+    }
+
     if (!this.services.codeReviewService) {
       this.services.codeReviewService = new CodeReviewService(
         this.getGitHubService(),
@@ -159,6 +246,265 @@ export class Container {
     return this.services.codeReviewService;
   }
 
+  /**
+   * Gets or creates a FollowUpService instance
+   *
+   * @param installationId - GitHub App installation the replies are posted as
+   * @param provider - AI provider, e.g. from the repository's `.codecritics.yml`
+   * @returns FollowUpService instance
+   */
+  getFollowUpService(installationId?: number, provider?: AIProvider): FollowUpService {
+    const githubService = this.getGitHubService(installationId);
+    const aiClient = this.getAIClientFor(provider);
+    if (githubService !== this.getGitHubService() || aiClient !== this.getAIClient()) {
+      return new FollowUpService(githubService, aiClient, this.getLogger());
+    }
+
+    if (!this.services.followUpService) {
+      this.services.followUpService = new FollowUpService(githubService, this.getAIClient(), this.getLogger());
+    }
+    return this.services.followUpService;
+  }
+
+  /**
+   * Gets or creates a RepositoryConfigLoader instance
+   *
+   * @param installationId - GitHub App installation the file is read as
+   * @returns RepositoryConfigLoader instance
+   */
+  getRepositoryConfigLoader(installationId?: number): RepositoryConfigLoader {
+    const githubService = this.getGitHubService(installationId);
+    if (githubService !== this.getGitHubService()) {
+      return new RepositoryConfigLoader(githubService, this.getLogger());
+    }
+
+    if (!this.services.repositoryConfigLoader) {
+      this.services.repositoryConfigLoader = new RepositoryConfigLoader(githubService, this.getLogger());
+    }
+    return this.services.repositoryConfigLoader;
+  }
+
+  /**
+   * Gets or creates the ReviewQueue instance
+   *
+   * Each job runs CodeReviewService.conductReview and stores its result; only
+   * the final attempt reports a failure on the pull request. The outcome is
+   * recorded against the webhook delivery that triggered the review.
+   *
+   * @returns ReviewQueue instance backed by the configured state store
+   */
+  getReviewQueue(): ReviewQueue {
+    if (!this.services.reviewQueue) {
+      const reviewQueue = new ReviewQueue(
+        createStateStore<ReviewJob>('review-jobs'),
+        async (job, signal) => {
+          if (job.request.kind === 'follow_up') {
+            return this.answerFollowUp(job);
+          }
+
+          const { owner, repo, pullNumber, headSha, installationId, provider, focus, dryRun, postPreview, paths } =
+            job.request;
+          const { ignoredFindings, lastReviewedSha } = await this.getPullRequestSettings().get(owner, repo, pullNumber);
+          const progress = this.getReviewProgress(job);
+          const isLastAttempt = job.attempts >= job.maxAttempts;
+
+          try {
+            const repositoryConfig = await this.getRepositoryConfigLoader(installationId)
+              .loadForPullRequest(owner, repo, pullNumber);
+            // A provider picked for this review wins over the repository's choice
+            const reviewProvider = provider ?? repositoryConfig.config.provider;
+
+            const result = await this.getCodeReviewService(installationId, reviewProvider).conductReview(owner, repo, pullNumber, {
+              reportFailure: isLastAttempt,
+              headSha,
+              signal,
+              focus,
+              dryRun,
+              paths,
+              ignoredFindings,
+              // Automatic reviews after a push only look at the new commits; requested reviews cover everything
+              sinceSha: job.request.isManualTrigger ? undefined : lastReviewedSha,
+              repositoryConfig,
+              onProgress: progress ? stage => progress.update(stage) : undefined
+            });
+
+            // Dry runs requested from a PR comment report back with the preview as a single comment
+            if (postPreview && result.preview) {
+              await this.getGitHubService(installationId)
+                .postPRComment(owner, repo, pullNumber, renderPreviewMarkdown(result.preview));
+            }
+            if (!dryRun) {
+              await this.getPullRequestSettings().recordReview(owner, repo, pullNumber, result);
+            }
+            await progress?.succeeded(result);
+            return result;
+          } catch (error) {
+            if (error instanceof ReviewCancelledError) {
+              await progress?.cancelled();
+            } else if (isLastAttempt) {
+              await progress?.failed();
+            }
+            throw error;
+          }
+        },
+        this.getLogger()
+      );
+
+      const recordOutcome = (outcome: 'completed' | 'cancelled' | 'failed') =>
+        (job: ReviewJob, error?: Error) => {
+          if (!job.request.deliveryId) {
+            return;
+          }
+          this.getDeliveryLedger()
+            .recordOutcome(job.request.deliveryId, outcome, {
+              jobId: job.id,
+              detail: error?.message ?? job.lastError
+            })
+            .catch(ledgerError => {
+              this.getLogger().error('Failed to record review outcome', ledgerError as Error, { jobId: job.id });
+            });
+        };
+
+      // Retries of a job keep updating the same progress comment
+      for (const event of ['completed', 'cancelled', 'dead']) {
+        reviewQueue.on(event, (job: ReviewJob) => this.reviewProgress.delete(job.id));
+      }
+
+      reviewQueue.on('completed', recordOutcome('completed'));
+      reviewQueue.on('cancelled', recordOutcome('cancelled'));
+      reviewQueue.on('dead', recordOutcome('failed'));
+      this.services.reviewQueue = reviewQueue;
+    }
+    return this.services.reviewQueue;
+  }
+
+  /**
+   * Answer a reply in a review thread, with the repository's AI provider
+   *
+   * @param job - Follow-up job
+   */
+  private async answerFollowUp(job: ReviewJob): Promise<void> {
+    const { owner, repo, pullNumber, installationId, rootCommentId } = job.request;
+    if (rootCommentId === undefined) {
+      throw new Error(`Follow-up job ${job.id} has no review thread`);
+    }
+
+    const repositoryConfig = await this.getRepositoryConfigLoader(installationId)
+      .loadForPullRequest(owner, repo, pullNumber);
+    await this.getFollowUpService(installationId, repositoryConfig.config.provider)
+      .answer(owner, repo, pullNumber, rootCommentId);
+  }
+
+  /**
+   * Gets or creates the progress reporter of a review requested from a PR comment
+   *
+   * @param job - Review job
+   * @returns Progress reporter, or undefined for reviews not requested from a comment
+   */
+  private getReviewProgress(job: ReviewJob): ReviewProgress | undefined {
+    const { owner, repo, pullNumber, installationId, triggerCommentId, triggerReactionId } = job.request;
+    if (!triggerCommentId) {
+      return undefined;
+    }
+
+    let progress = this.reviewProgress.get(job.id);
+    if (!progress) {
+      progress = new ReviewProgress(
+        this.getGitHubService(installationId),
+        { owner, repo, pullNumber, triggerCommentId, triggerReactionId },
+        config.REVIEW_PROGRESS_COMMENTS,
+        this.getLogger()
+      );
+      this.reviewProgress.set(job.id, progress);
+    }
+    return progress;
+  }
+
+  /**
+   * Gets or creates the DeliveryLedger instance
+   *
+   * @returns DeliveryLedger instance backed by the configured state store
+   */
+  getDeliveryLedger(): DeliveryLedger {
+    if (!this.services.deliveryLedger) {
+      this.services.deliveryLedger = new DeliveryLedger(
+        createStateStore<DeliveryRecord>('webhook-deliveries'),
+        this.getLogger()
+      );
+    }
+    return this.services.deliveryLedger;
+  }
+
+  /**
+   * Gets or creates the RepositoryRegistry instance
+   *
+   * @returns RepositoryRegistry instance backed by the configured state store
+   */
+  getRepositoryRegistry(): RepositoryRegistry {
+    if (!this.services.repositoryRegistry) {
+      const appAuth = this.getGitHubAppAuth();
+      this.services.repositoryRegistry = new RepositoryRegistry(
+        createStateStore<EnabledRepository>('enabled-repositories'),
+        this.getLogger(),
+        undefined,
+        appAuth && ((owner, repo) => appAuth.getRepositoryInstallationId(owner, repo))
+      );
+    }
+    return this.services.repositoryRegistry;
+  }
+
+  /**
+   * Gets or creates the PullRequestSettingsService instance
+   *
+   * @returns PullRequestSettingsService instance backed by the configured state store
+   */
+  getPullRequestSettings(): PullRequestSettingsService {
+    if (!this.services.pullRequestSettings) {
+      this.services.pullRequestSettings = new PullRequestSettingsService(
+        createStateStore<PullRequestSettings>('pull-request-settings'),
+        this.getLogger()
+      );
+    }
+    return this.services.pullRequestSettings;
+  }
+
+  /**
+   * Gets or creates the HealthChecker instance
+   *
+   * The AI client is resolved lazily so a missing provider is reported as
+   * unhealthy instead of failing startup.
+   *
+   * @returns HealthChecker instance
+   */
+  getHealthChecker(): HealthChecker {
+    if (!this.services.healthChecker) {
+      this.services.healthChecker = new HealthChecker(
+        this.getGitHubService(),
+        () => this.getAIClient(),
+        this.getReviewQueue(),
+        this.getLogger()
+      );
+    }
+    return this.services.healthChecker;
+  }
+
+  /**
+   * Gets or creates the AdminReviewService instance
+   *
+   * @returns AdminReviewService instance
+   */
+  getAdminReviewService(): AdminReviewService {
+    if (!this.services.adminReviewService) {
+      this.services.adminReviewService = new AdminReviewService(
+        this.getReviewQueue(),
+        this.getRepositoryRegistry(),
+        this.getGitHubService(),
+        this.getLogger()
+      );
+    }
+    return this.services.adminReviewService;
+  }
+
   /**
    * Resets all services (useful for testing)
    * 
@@ -167,6 +513,8 @@ export class Container {
    */
   reset(): void {
     this.services = {};
+    this.providerClients.clear();
+    this.reviewProgress.clear();
   }
 
   /**
@@ -16,9 +16,15 @@ export { DeepSeekClient } from '../services/deepseek-client';
 
 // Webhook handling
 export {
+  registerWebhookHandlers,
+  handlePingEvent,
   handlePullRequestEvent,
-  handleIssueCommentEvent
+  handleIssueCommentEvent,
+  handleReviewCommentEvent,
+  handleInstallationEvent,
+  handleInstallationRepositoriesEvent
 } from '../services/webhook-handlers';
+export { WebhookEventRouter } from '../services/event-router';
 
 // Utilities
 export { Logger } from '../utils/logger';
@@ -12,7 +12,7 @@ export { DeepSeekClient } from '../../services/deepseek-client';
 
 // AI utilities
 export { AIResponseParser } from '../../utils/ai-response-parser';
-export { systemPrompt } from '../../utils/ai-prompts';
+export { systemPrompt, followUpPrompt } from '../../utils/ai-prompts';
 
 // AI types
 export * from '../../types/ai'; 
\ No newline at end of file
@@ -7,12 +7,22 @@
 
 // GitHub services
 export { GitHubService } from '../../services/github';
+export { GitHubAppAuth } from '../../services/github-app-auth';
+export { RepositoryRegistry } from '../../services/repository-registry';
+export { PullRequestSettingsService } from '../../services/pull-request-settings';
 
 // Webhook handling
 export {
+  registerWebhookHandlers,
+  handlePingEvent,
   handlePullRequestEvent,
-  handleIssueCommentEvent
+  handleIssueCommentEvent,
+  handleReviewCommentEvent,
+  handleInstallationEvent,
+  handleInstallationRepositoriesEvent
 } from '../../services/webhook-handlers';
+export { WebhookEventRouter } from '../../services/event-router';
+export { parseCommentCommand, COMMAND_USAGE } from '../../utils/comment-commands';
 
 // Security utilities
 export {
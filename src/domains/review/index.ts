@@ -7,13 +7,16 @@
 
 // Core review service
 export { CodeReviewService } from '../../services/code-reviewer';
+export { RepositoryConfigLoader } from '../../services/repository-config-loader';
 
 // Review utilities
 export { DiffProcessor } from '../../utils/diff-processor';
+export { parseRepositoryConfig } from '../../utils/repository-config';
 
 // Review-specific types
 export type {
   CodeReviewResult,
+  RepositoryConfig,
   ReviewComment,
   ReviewRequest,
   ReviewStatus
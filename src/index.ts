@@ -11,10 +11,21 @@
 
 import 'dotenv/config';
 import express from 'express';
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import { container } from './core/container';
 import config from './utils/config';
-import { verifyWebhookSignature, sanitizeWebhookPayload, sanitizeHeaders } from './utils/webhook-security';
+import {
+  findMatchingWebhookSecret,
+  parseWebhookBody,
+  sanitizeWebhookPayload,
+  sanitizeHeaders
+} from './utils/webhook-security';
+import { WebhookEventRouter } from './services/event-router';
+import { registerWebhookHandlers } from './services/webhook-handlers';
+import { renderPreviewMarkdown } from './services/review-publisher';
+import { requireAdminToken } from './utils/admin-auth';
+import { ApiError, toBodyParseApiError } from './utils/errors';
+import { metrics, METRICS_CONTENT_TYPE, webhooksReceived, webhookSignatureFailures } from './utils/metrics';
 
 /**
  * Express application instance
@@ -30,95 +41,87 @@ const port = process.env.PORT || 3000;
  * Service instances from dependency injection container
  */
 const githubService = container.getGitHubService();
-const codeReviewService = container.getCodeReviewService();
+const healthChecker = container.getHealthChecker();
+const reviewQueue = container.getReviewQueue();
+const deliveryLedger = container.getDeliveryLedger();
+const repositoryRegistry = container.getRepositoryRegistry();
+const adminReviewService = container.getAdminReviewService();
 const logger = container.getLogger();
 
 /**
- * Health check endpoint with comprehensive service validation
+ * Routes verified webhook deliveries to the typed handlers
+ */
+const eventRouter = new WebhookEventRouter(logger);
+registerWebhookHandlers(eventRouter);
+
+/**
+ * Resume persisted review jobs left over from a previous process
+ */
+reviewQueue.start().catch(error => {
+  logger.error('Failed to start review queue', error as Error);
+});
+
+/**
+ * Liveness probe
+ * 
+ * Cheap check that the process is up; makes no outbound calls.
+ * 
+ * @route GET /livez
+ * @returns {Object} Liveness status and uptime
+ */
+app.get('/livez', (_req: Request, res: Response) => {
+  res.json(healthChecker.checkLiveness());
+});
+
+/**
+ * Readiness probe with per-component status
  * 
  * Performs validation of:
- * - Environment variables
- * - GitHub API connectivity
- * - Rate limit status
- * - Service configuration
+ * - Configuration (GitHub credentials, webhook secrets)
+ * - Review queue backlog
+ * - GitHub API connectivity and rate limit (cached)
+ * - AI provider reachability (cached)
  * 
- * @route GET /health
- * @returns {Object} Health status with service details
+ * Responds 503 when any component is in error; a degraded component still
+ * reports ready. GET /health is kept as an alias.
+ * 
+ * @route GET /readyz
+ * @returns {Object} Readiness status with component details
  */
-app.get('/health', async (_req, res) => {
+const readinessHandler = async (_req: Request, res: Response): Promise<void> => {
   const startTime = Date.now();
 
   try {
-    // Check environment variables
-    const requiredEnvVars = ['GITHUB_TOKEN', 'WEBHOOK_SECRET'];
-    const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
-
-    if (missingVars.length > 0) {
-      res.status(500).json({
-        status: 'error',
-        message: `Missing environment variables: ${missingVars.join(', ')}`
-      });
-      return;
-    }
-
-    // Check GitHub API connectivity
-    let githubStatus = 'ok';
-    let githubUser = null;
-
-    try {
-      githubUser = await githubService.validateToken();
-    } catch (error) {
-      githubStatus = 'error';
-      logger.error('GitHub API health check failed', error as Error);
-    }
-
-    // Check rate limits
-    let rateLimitInfo = null;
-    try {
-      rateLimitInfo = await githubService.checkRateLimit();
-    } catch (error) {
-      logger.warn('Could not fetch rate limit info', error as Record<string, any>);
-    }
+    const report = await healthChecker.checkReadiness();
 
-    const responseTime = Date.now() - startTime;
-
-    const healthData = {
-      status: githubStatus === 'ok' ? 'ok' : 'degraded',
-      timestamp: new Date().toISOString(),
-      responseTime: `${responseTime}ms`,
-      services: {
-        github: {
-          status: githubStatus,
-          user: githubUser?.login,
-          rateLimit: rateLimitInfo ? {
-            remaining: rateLimitInfo.remaining,
-            limit: rateLimitInfo.limit,
-            reset: rateLimitInfo.reset
-          } : null
-        }
-      },
-      config: {
-        aiProvider: config.AI_PROVIDER,
-        maxDiffSize: config.MAX_DIFF_SIZE,
-        logLevel: config.LOG_LEVEL,
-        allowedRepositories: config.ALLOWED_REPOSITORIES ? 'configured' : 'all'
-      },
+    res.status(report.status === 'error' ? 503 : 200).json({
+      ...report,
+      responseTime: `${Date.now() - startTime}ms`,
       version: process.env.VERCEL_GIT_COMMIT_SHA?.substring(0, 7) || 'unknown'
-    };
-
-    res.status(githubStatus === 'ok' ? 200 : 503).json(healthData);
+    });
   } catch (error) {
-    const responseTime = Date.now() - startTime;
-
     logger.error('Health check failed', error as Error);
 
     res.status(500).json({
       status: 'error',
       message: 'Health check failed',
-      responseTime: `${responseTime}ms`,
+      responseTime: `${Date.now() - startTime}ms`,
       timestamp: new Date().toISOString()
     });
   }
+};
+
+app.get('/readyz', readinessHandler);
+app.get('/health', readinessHandler);
+
+/**
+ * Prometheus metrics endpoint
+ * 
+ * @route GET /metrics
+ * @returns {string} Metrics in the Prometheus text exposition format
+ */
+app.get('/metrics', (_req: Request, res: Response) => {
+  res.type(METRICS_CONTENT_TYPE).send(metrics.render());
 });
 
 /**
@@ -136,139 +139,217 @@ app.get('/api/info', (_req: Request, res: Response) => {
     version: '1.0.0',
     description: 'AI-powered GitHub code review application',
     endpoints: {
-      health: '/health',
-      webhooks: '/api/webhooks'
+      liveness: '/livez',
+      readiness: '/readyz',
+      metrics: '/metrics',
+      webhooks: '/api/webhooks',
+      repositories: '/api/repositories',
+      reviews: '/api/reviews'
     },
     documentation: 'https://github.com/your-username/code-critics'
   });
 });
 
+/**
+ * Enabled repositories endpoint
+ * 
+ * Lists the repositories the GitHub App is installed on, as recorded from
+ * installation webhook events. Requires the admin token.
+ * 
+ * @route GET /api/repositories
+ * @returns {Object} Enabled repositories and the active filters
+ */
+app.get('/api/repositories', requireAdminToken, async (_req: Request, res: Response): Promise<void> => {
+  const repositories = await repositoryRegistry.list();
+
+  res.json({
+    authMode: config.GITHUB_AUTH_MODE,
+    allowlist: config.ALLOWED_REPOSITORIES ? 'configured' : 'all',
+    repositories: repositories.map(repository => ({
+      ...repository,
+      allowed: githubService.isRepositoryAllowed(repository.fullName)
+    }))
+  });
+});
+
+/**
+ * Send an ApiError as a JSON response, or rethrow anything else
+ */
+function sendApiError(res: Response, error: unknown): void {
+  if (!(error instanceof ApiError)) {
+    throw error;
+  }
+  res.status(error.statusCode).json({ error: error.message });
+}
+
+/**
+ * Answer malformed JSON bodies with 400 instead of the generic 500
+ */
+function rejectMalformedJson(error: unknown, _req: Request, res: Response, next: NextFunction): void {
+  const apiError = toBodyParseApiError(error);
+  if (!apiError) {
+    next(error);
+    return;
+  }
+  sendApiError(res, apiError);
+}
+
+/**
+ * Trigger a review on demand
+ * 
+ * Queues a review that is posted to the pull request like any other, unless `dryRun` is set. Requires the admin token.
+ * 
+ * @route POST /api/reviews
+ * @param {string} req.body.owner - Repository owner
+ * @param {string} req.body.repo - Repository name
+ * @param {number} req.body.pullNumber - Pull request number
+ * @param {string} [req.body.focus] - Extra instructions for the review
+ * @param {string} [req.body.provider] - AI provider override (gemini, deepseek)
+ * @param {boolean} [req.body.dryRun] - Run the review without posting anything to GitHub
+ * @returns {Object} The queued review, including its ID
+ */
+app.post('/api/reviews', requireAdminToken, express.json(), rejectMalformedJson, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const review = await adminReviewService.triggerReview(req.body);
+    res.status(202).location(`/api/reviews/${review.id}`).json(review);
+  } catch (error) {
+    sendApiError(res, error);
+  }
+});
+
+/**
+ * Inspect a review
+ * 
+ * Returns status, timings, the provider used, posted comments and any error.
+ * For dry runs, `?format=markdown` returns the captured preview rendered as
+ * markdown. Requires the admin token.
+ * 
+ * @route GET /api/reviews/:id
+ * @param {string} [req.query.format] - `json` (default) or `markdown`
+ * @returns {Object} Review summary
+ */
+app.get('/api/reviews/:id', requireAdminToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const review = await adminReviewService.getReview(req.params.id);
+    if (req.query.format !== 'markdown') {
+      res.json(review);
+      return;
+    }
+
+    if (!review.dryRun) {
+      throw new ApiError('Markdown output is only available for dry runs', 400);
+    }
+    if (!review.preview) {
+      throw new ApiError(`Review ${review.id} has no preview yet (status: ${review.status})`, 409);
+    }
+    res.type('text/markdown').send(renderPreviewMarkdown(review.preview));
+  } catch (error) {
+    sendApiError(res, error);
+  }
+});
+
 /**
  * GitHub webhook endpoint for processing pull request and issue comment events
  * 
- * This endpoint handles GitHub webhooks for:
+ * Verified deliveries are dispatched through the event router to the typed
+ * handlers in webhook-handlers.ts, which handle:
  * - Pull request events (opened, reopened, synchronize)
  * - Issue comment events (manual review requests via @codecritics)
+ * - Installation events (maintain the set of enabled repositories)
  * 
  * Security features:
- * - Webhook signature verification
+ * - Webhook signature verification against the raw request body, with
+ *   multiple active secrets to allow rotation
  * - Payload sanitization
  * - Rate limiting
- * - Asynchronous processing
+ * - Delivery deduplication (redelivered webhooks are not processed twice)
+ * - Durable review queue (reviews survive restarts and are retried)
  * 
  * @route POST /api/webhooks
- * @param {Object} req.body - GitHub webhook payload
+ * @param {Buffer} req.body - Raw GitHub webhook payload (parsed after verification)
  * @param {string} req.headers.x-hub-signature-256 - Webhook signature
  * @param {string} req.headers.x-github-event - Event type
  * @param {string} req.headers.x-github-delivery - Delivery ID
  * @returns {Object} Processing status
  */
-app.post('/api/webhooks', express.json({ limit: '10mb' }), (req: Request, res: Response): void => {
+app.post('/api/webhooks', express.raw({ type: '*/*', limit: '10mb' }), async (req: Request, res: Response): Promise<void> => {
   const signature = req.headers['x-hub-signature-256'] as string;
   const event = req.headers['x-github-event'] as string;
   const delivery = req.headers['x-github-delivery'] as string;
 
+  // The HMAC must be computed over the exact bytes GitHub signed, not a re-serialized body
+  const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+  // Verify webhook signature for security
+  const matchedSecret = findMatchingWebhookSecret(rawBody, signature);
+  if (!matchedSecret) {
+    logger.warn('Invalid webhook signature', { delivery, event });
+    webhookSignatureFailures.inc();
+    res.status(401).json({ error: 'Unauthorized: Invalid signature' });
+    return;
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    const parsed = parseWebhookBody(rawBody, req.headers['content-type']);
+    // Every GitHub event payload is a JSON object
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new SyntaxError('Payload is not a JSON object');
+    }
+    payload = parsed as Record<string, unknown>;
+    req.body = payload;
+  } catch (error) {
+    logger.warn('Malformed webhook payload', { delivery, event, error: (error as Error).message });
+    res.status(400).json({ error: 'Bad Request: Malformed payload' });
+    return;
+  }
+
   // Asynchronously log webhook data to avoid blocking
+  webhooksReceived.inc({ event: event || 'unknown', action: typeof payload.action === 'string' ? payload.action : '' });
   setImmediate(() => {
-    const sanitizedBody = sanitizeWebhookPayload(req.body);
+    const sanitizedBody = sanitizeWebhookPayload(payload);
     logger.info('Received webhook', {
       event,
       delivery,
+      secretIndex: matchedSecret.index,
+      secretFingerprint: matchedSecret.fingerprint,
       headers: sanitizeHeaders(req.headers),
       body: JSON.stringify(sanitizedBody).substring(0, 500)
     });
   });
 
-  // Verify webhook signature for security
-  if (!verifyWebhookSignature(JSON.stringify(req.body), signature, process.env.WEBHOOK_SECRET!)) {
-    logger.warn('Invalid webhook signature', { delivery, event });
-    res.status(401).json({ error: 'Unauthorized: Invalid signature' });
-    return;
+  // Short-circuit redeliveries of webhooks we already handled
+  if (delivery) {
+    const claim = await deliveryLedger.claim(delivery, event);
+    if (!claim.claimed) {
+      res.status(200).json({
+        message: 'Delivery already processed',
+        outcome: claim.record.outcome,
+        jobId: claim.record.jobId
+      });
+      return;
+    }
   }
 
-  switch (event) {
-    case 'ping':
-      logger.info('Received ping event', {
-        zen: req.body.zen,
-        hook_id: req.body.hook_id,
-        repository: req.body.repository?.full_name
-      });
-      res.status(200).json({ message: 'Pong!' });
-      break;
-
-    case 'pull_request':
-      logger.info('Received pull request event', {
-        action: req.body.action,
-        repo: req.body.repository?.full_name,
-        pr: req.body.pull_request?.number,
-        title: req.body.pull_request?.title,
-        author: req.body.pull_request?.user?.login
-      });
+  try {
+    const result = await eventRouter.dispatch(delivery, event, payload);
 
-      const pullRequest = req.body.pull_request;
-      const action = req.body.action;
-
-      if (action === 'opened' || action === 'reopened' || action === 'synchronize') {
-        // 'synchronize' event occurs when new commits are pushed to the PR branch
-        const owner = pullRequest.base.repo.owner.login;
-        const repo = pullRequest.base.repo.name;
-        const pullNumber = pullRequest.number;
-
-        // Asynchronously conduct the review to not block the webhook response
-        codeReviewService.conductReview(owner, repo, pullNumber).catch(error => {
-          logger.error('Error conducting code review', error as Error, { owner, repo, pullNumber });
-        });
-
-        res.status(202).json({ message: 'Pull request event received, review initiated' });
-      } else {
-        res.status(202).json({ message: `Pull request event action '${action}' not handled` });
-      }
-      break;
-
-    case 'issue_comment':
-      logger.info('Received issue comment event', {
-        repo: req.body.repository?.full_name,
-        issue: req.body.issue?.number,
-        comment: req.body.comment?.body?.substring(0, 100),
-        author: req.body.comment?.user?.login
+    if (delivery) {
+      await deliveryLedger.recordOutcome(delivery, result.outcome, {
+        detail: result.message,
+        jobId: result.jobId
       });
+    }
 
-      // Check if this is a comment on a PR and mentions @codecritics
-      const issue = req.body.issue;
-      const comment = req.body.comment;
-
-      if (issue && issue.pull_request && comment && comment.body &&
-        comment.body.toLowerCase().includes('@codecritics')) {
-
-        logger.info('Manual code review requested via comment', {
-          repo: req.body.repository.full_name,
-          pr: issue.number,
-          commenter: comment.user.login
-        });
-
-        const owner = req.body.repository.owner.login;
-        const repo = req.body.repository.name;
-        const pullNumber = issue.number;
-
-        // Asynchronously conduct the review to not block the webhook response
-        codeReviewService.conductReview(owner, repo, pullNumber).catch(error => {
-          logger.error('Error conducting manual code review', error as Error, {
-            owner,
-            repo,
-            pullNumber,
-            commenter: comment.user.login
-          });
-        });
-
-        res.status(202).json({ message: 'Manual code review requested, review initiated' });
-      } else {
-        res.status(202).json({ message: 'Issue comment event received, no action taken' });
-      }
-      break;
-
-    default:
-      logger.info('Received unsupported event', { event, delivery });
-      res.status(202).json({ message: `Event type '${event}' is not supported` });
+    res.status(result.outcome === 'queued' ? 202 : 200).json({
+      message: result.message,
+      jobId: result.jobId
+    });
+  } catch (error) {
+    if (delivery) {
+      await deliveryLedger.recordOutcome(delivery, 'failed', { detail: (error as Error).message });
+    }
+    throw error;
   }
 });
 
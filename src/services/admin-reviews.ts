@@ -0,0 +1,158 @@
+import { AIProvider, ReviewJob, ReviewRequest, ReviewSummary } from '../types';
+import { Logger } from '../utils/logger';
+import { ApiError } from '../utils/errors';
+import config from '../utils/config';
+import { COMMENT_COMMANDS } from '../utils/constants';
+import { GitHubService } from './github';
+import { RepositoryRegistry } from './repository-registry';
+import { ReviewQueue } from './review-queue';
+
+const AI_PROVIDERS: readonly AIProvider[] = ['gemini', 'deepseek'];
+const REPOSITORY_PART = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Triggers and inspects reviews on behalf of the admin API
+ *
+ * Reviews go through the same queue as webhook-triggered reviews, so they are
+ * retried, deduplicated against newer pushes and visible in the metrics.
+ */
+export class AdminReviewService {
+  private logger: Logger;
+
+  /**
+   * Creates a new admin review service
+   *
+   * @param reviewQueue - Queue the reviews are enqueued on
+   * @param repositoryRegistry - Registry used to resolve the installation of a repository
+   * @param githubService - GitHub service used for the repository allowlist
+   * @param logger - Optional logger instance for dependency injection
+   */
+  constructor(
+    private readonly reviewQueue: ReviewQueue,
+    private readonly repositoryRegistry: RepositoryRegistry,
+    private readonly githubService: GitHubService,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Validate a trigger request and enqueue the review
+   *
+   * @param body - JSON body of POST /api/reviews
+   * @returns Summary of the queued review
+   * @throws ApiError 400 for invalid input, 403/404 for repositories that may not be reviewed
+   */
+  async triggerReview(body: unknown): Promise<ReviewSummary> {
+    const request = this.parseTriggerRequest(body);
+    const fullName = `${request.owner}/${request.repo}`;
+
+    if (!this.githubService.isRepositoryAllowed(fullName)) {
+      throw new ApiError(`Repository ${fullName} is not in the allowlist`, 403);
+    }
+    if (!(await this.repositoryRegistry.isEnabled(fullName))) {
+      throw new ApiError(`Repository ${fullName} is not enabled`, 404);
+    }
+
+    const enabledRepository = await this.repositoryRegistry.get(fullName);
+    const job = await this.reviewQueue.enqueue({
+      ...request,
+      installationId: enabledRepository?.installationId,
+      isManualTrigger: true
+    });
+
+    this.logger.info('Review triggered via admin API', {
+      jobId: job.id,
+      repository: fullName,
+      pullNumber: request.pullNumber,
+      provider: request.provider,
+      dryRun: !!request.dryRun
+    });
+    return this.toSummary(job);
+  }
+
+  /**
+   * Get the current state of a review
+   *
+   * @param id - Review (job) ID
+   * @returns Summary of the review
+   * @throws ApiError 404 if the review does not exist or was pruned
+   */
+  async getReview(id: string): Promise<ReviewSummary> {
+    const job = await this.reviewQueue.getJob(id);
+    if (!job) {
+      throw new ApiError(`Review ${id} not found`, 404);
+    }
+    return this.toSummary(job);
+  }
+
+  private parseTriggerRequest(body: unknown): ReviewRequest {
+    if (!body || typeof body !== 'object') {
+      throw new ApiError('Request body must be a JSON object', 400);
+    }
+
+    const { owner, repo, pullNumber, focus, provider, dryRun } = body as Record<string, unknown>;
+
+    if (typeof owner !== 'string' || !REPOSITORY_PART.test(owner)) {
+      throw new ApiError('owner must be a valid repository owner', 400);
+    }
+    if (typeof repo !== 'string' || !REPOSITORY_PART.test(repo)) {
+      throw new ApiError('repo must be a valid repository name', 400);
+    }
+    if (typeof pullNumber !== 'number' || !Number.isInteger(pullNumber) || pullNumber <= 0) {
+      throw new ApiError('pullNumber must be a positive integer', 400);
+    }
+    if (focus !== undefined && (typeof focus !== 'string' || focus.length > COMMENT_COMMANDS.MAX_FOCUS_LENGTH)) {
+      throw new ApiError(`focus must be a string of at most ${COMMENT_COMMANDS.MAX_FOCUS_LENGTH} characters`, 400);
+    }
+    if (provider !== undefined) {
+      if (!AI_PROVIDERS.includes(provider as AIProvider)) {
+        throw new ApiError(`provider must be one of: ${AI_PROVIDERS.join(', ')}`, 400);
+      }
+      const apiKey = provider === 'gemini' ? config.GEMINI_API_KEY : config.DEEPSEEK_API_KEY;
+      if (!apiKey) {
+        throw new ApiError(`provider ${provider} is not configured`, 400);
+      }
+    }
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+      throw new ApiError('dryRun must be a boolean', 400);
+    }
+
+    return {
+      owner,
+      repo,
+      pullNumber,
+      focus: (focus as string | undefined)?.trim() || undefined,
+      provider: provider as AIProvider | undefined,
+      dryRun: dryRun || undefined
+    };
+  }
+
+  private toSummary(job: ReviewJob): ReviewSummary {
+    const { request, result } = job;
+    const durationMs = job.startedAt && job.completedAt
+      ? Date.parse(job.completedAt) - Date.parse(job.startedAt)
+      : undefined;
+
+    return {
+      id: job.id,
+      status: job.status,
+      repository: `${request.owner}/${request.repo}`,
+      pullNumber: request.pullNumber,
+      focus: request.focus,
+      provider: result?.provider ?? request.provider,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      durationMs,
+      comments: result?.comments ?? [],
+      skipReason: result?.skipReason,
+      dryRun: !!request.dryRun,
+      preview: result?.preview,
+      error: job.status === 'completed' ? undefined : job.lastError,
+      supersededBy: job.supersededBy
+    };
+  }
+}
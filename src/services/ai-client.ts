@@ -1,4 +1,5 @@
-import { AIChatMessage } from '../types/ai';
+import { AIChatMessage, AIRequestOptions } from '../types/ai';
+import { ReviewCancelledError, throwIfCancelled } from '../utils/errors';
 
 /**
  * Abstract base class for AI service clients
@@ -7,6 +8,11 @@ import { AIChatMessage } from '../types/ai';
 export abstract class AIClient {
   protected apiKey: string;
 
+  /**
+   * Provider identifier, e.g. 'gemini'
+   */
+  abstract readonly provider: string;
+
   /**
    * Creates a new AI client instance
    * 
@@ -24,8 +30,42 @@ export abstract class AIClient {
    * Generate a completion from the AI service based on provided messages
    * 
    * @param messages - Array of chat messages to send to the AI
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the AI's response text
+   * @throws ReviewCancelledError if the request is aborted
    * @throws Error if the API call fails
    */
-  abstract generateCompletion(messages: AIChatMessage[]): Promise<string>;
+  abstract generateCompletion(messages: AIChatMessage[], options?: AIRequestOptions): Promise<string>;
+
+  /**
+   * Check that the provider is reachable and accepts the API key
+   *
+   * Uses a metadata endpoint, so no completion tokens are spent.
+   *
+   * @param options - Optional request options such as an abort signal
+   * @throws Error if the provider cannot be reached or rejects the key
+   */
+  abstract checkHealth(options?: AIRequestOptions): Promise<void>;
+
+  /**
+   * Reject as soon as the signal aborts, for SDK calls that take no signal
+   *
+   * @param operation - Pending SDK call
+   * @param signal - Optional abort signal
+   * @returns Promise settling with the operation or rejecting on abort
+   */
+  protected raceAbort<T>(operation: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return operation;
+    }
+    throwIfCancelled(signal);
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new ReviewCancelledError('AI request aborted'));
+      signal.addEventListener('abort', onAbort, { once: true });
+      operation
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
 } 
\ No newline at end of file
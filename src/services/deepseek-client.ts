@@ -1,6 +1,7 @@
 import { AIClient } from './ai-client';
-import { AIChatMessage, DeepSeekChatCompletionResponse } from '../types/ai';
+import { AIChatMessage, AIRequestOptions, DeepSeekChatCompletionResponse } from '../types/ai';
 import { Logger } from '../utils/logger';
+import { ReviewCancelledError } from '../utils/errors';
 import config from '../utils/config';
 
 /**
@@ -8,7 +9,9 @@ import config from '../utils/config';
  * Handles communication with DeepSeek's code-focused models
  */
 export class DeepSeekClient extends AIClient {
+  readonly provider = 'deepseek';
   private baseUrl: string = 'https://api.deepseek.com/chat/completions';
+  private modelsUrl: string = 'https://api.deepseek.com/models';
   private logger: Logger;
 
   /**
@@ -49,10 +52,12 @@ export class DeepSeekClient extends AIClient {
    * Generates a completion from DeepSeek's API based on provided messages
    * 
    * @param messages - Array of chat messages to send to the AI
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the AI's response text
+   * @throws ReviewCancelledError if the request is aborted
    * @throws Error if the API call fails or returns invalid data
    */
-  async generateCompletion(messages: AIChatMessage[]): Promise<string> {
+  async generateCompletion(messages: AIChatMessage[], options: AIRequestOptions = {}): Promise<string> {
     try {
       const response = await fetch(this.baseUrl, {
         method: 'POST',
@@ -61,10 +66,11 @@ export class DeepSeekClient extends AIClient {
           'Authorization': `Bearer ${this.apiKey}`,
         },
         body: JSON.stringify({
-          model: 'deepseek-coder',
+          model: options.model ?? 'deepseek-coder',
           messages: messages.map(msg => ({ role: msg.role, content: msg.content })),
           stream: false,
         }),
+        signal: options.signal,
       });
 
       if (!response.ok) {
@@ -91,8 +97,28 @@ export class DeepSeekClient extends AIClient {
         throw new Error('Invalid response from DeepSeek API');
       }
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw new ReviewCancelledError('AI request aborted');
+      }
       this.logger.error('Error generating completion with DeepSeek', error as Error);
       throw new Error('Failed to generate completion with DeepSeek.');
     }
   }
+
+  /**
+   * Check that the DeepSeek API is reachable by listing the available models
+   * 
+   * @param options - Optional request options such as an abort signal
+   * @throws Error if the API is unreachable or rejects the key
+   */
+  async checkHealth(options: AIRequestOptions = {}): Promise<void> {
+    const response = await fetch(this.modelsUrl, {
+      headers: { 'Authorization': `Bearer ${this.apiKey}` },
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`DeepSeek API health check failed: ${response.status} - ${response.statusText}`);
+    }
+  }
 }
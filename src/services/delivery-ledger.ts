@@ -0,0 +1,159 @@
+import { DeliveryOutcome, DeliveryRecord } from '../types';
+import { Logger } from '../utils/logger';
+import { StateStore } from '../utils/state-store';
+import config from '../utils/config';
+import { WEBHOOK_DELIVERY } from '../utils/constants';
+
+/**
+ * Result of claiming a delivery
+ */
+export type DeliveryClaim =
+  | { claimed: true; record: DeliveryRecord; }
+  | { claimed: false; record: DeliveryRecord; };
+
+/**
+ * Ledger of processed webhook deliveries keyed by X-GitHub-Delivery
+ *
+ * GitHub redelivers webhooks on timeouts and on manual redelivery from the
+ * settings page. Claiming a delivery before processing it makes sure each
+ * delivery triggers at most one review. Deliveries that failed can be claimed
+ * again so a manual redelivery retries them, and so can deliveries that have
+ * been processing for longer than a lease, since the process handling them
+ * most likely crashed before recording an outcome.
+ */
+export class DeliveryLedger {
+  private logger: Logger;
+  private inFlight = new Set<string>();
+  private lastPrune = 0;
+
+  /**
+   * Creates a new delivery ledger
+   *
+   * @param store - Store used to persist delivery records
+   * @param logger - Optional logger instance for dependency injection
+   * @param ttlMs - How long a delivery ID is remembered
+   */
+  constructor(
+    private readonly store: StateStore<DeliveryRecord>,
+    logger?: Logger,
+    private readonly ttlMs: number = config.DELIVERY_TTL_MS
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Claim a delivery for processing
+   *
+   * @param id - Delivery ID from the X-GitHub-Delivery header
+   * @param event - Event name from the X-GitHub-Event header
+   * @returns Whether the delivery was claimed, and the current record
+   */
+  async claim(id: string, event: string): Promise<DeliveryClaim> {
+    // Guard synchronously so concurrent deliveries of the same ID cannot both
+    // pass the read below before either one has written its record
+    if (this.inFlight.has(id)) {
+      return this.duplicate(id, event, await this.store.get(id));
+    }
+
+    this.inFlight.add(id);
+    try {
+      await this.pruneIfDue();
+
+      const now = Date.now();
+      const existing = await this.store.get(id);
+      if (existing && existing.expiresAt > now && existing.outcome !== 'failed' && !this.isLeaseExpired(existing, now)) {
+        return this.duplicate(id, event, existing);
+      }
+      if (existing?.outcome === 'processing') {
+        this.logger.warn('Reclaiming delivery with an expired processing lease', { delivery: id, event });
+      }
+
+      const record = this.createRecord(id, event, now);
+      await this.store.set(id, record);
+      return { claimed: true, record };
+    } finally {
+      this.inFlight.delete(id);
+    }
+  }
+
+  /**
+   * Record the outcome of a delivery
+   *
+   * @param id - Delivery ID
+   * @param outcome - Outcome to record
+   * @param details - Optional detail message and review job ID
+   */
+  async recordOutcome(
+    id: string,
+    outcome: DeliveryOutcome,
+    details: { detail?: string; jobId?: string; } = {}
+  ): Promise<void> {
+    const existing = await this.store.get(id);
+    if (!existing) {
+      this.logger.warn('Recording outcome for unknown delivery', { delivery: id, outcome });
+      return;
+    }
+
+    await this.store.set(id, {
+      ...existing,
+      ...details,
+      outcome,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Get the record for a delivery
+   *
+   * @param id - Delivery ID
+   * @returns The delivery record, or undefined if unknown or expired
+   */
+  async get(id: string): Promise<DeliveryRecord | undefined> {
+    const record = await this.store.get(id);
+    return record && record.expiresAt > Date.now() ? record : undefined;
+  }
+
+  /**
+   * Remove records whose TTL has passed
+   */
+  async prune(): Promise<void> {
+    const now = Date.now();
+    this.lastPrune = now;
+    for (const [id, record] of await this.store.entries()) {
+      if (record.expiresAt <= now) {
+        await this.store.delete(id);
+      }
+    }
+  }
+
+  private async pruneIfDue(): Promise<void> {
+    if (Date.now() - this.lastPrune >= WEBHOOK_DELIVERY.PRUNE_INTERVAL_MS) {
+      await this.prune();
+    }
+  }
+
+  private isLeaseExpired(record: DeliveryRecord, now: number): boolean {
+    return record.outcome === 'processing' &&
+      now - Date.parse(record.updatedAt) >= WEBHOOK_DELIVERY.PROCESSING_LEASE_MS;
+  }
+
+  private duplicate(id: string, event: string, existing: DeliveryRecord | undefined): DeliveryClaim {
+    this.logger.info('Duplicate webhook delivery', {
+      delivery: id,
+      event,
+      outcome: existing?.outcome ?? 'processing'
+    });
+    return { claimed: false, record: existing ?? this.createRecord(id, event, Date.now()) };
+  }
+
+  private createRecord(id: string, event: string, now: number): DeliveryRecord {
+    return {
+      id,
+      event,
+      outcome: 'processing',
+      receivedAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+      expiresAt: now + this.ttlMs
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+import {
+  createEventHandler,
+  EmitterWebhookEvent,
+  EmitterWebhookEventName
+} from '@octokit/webhooks';
+import { WebhookHandlerResult } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Handler registered on the router for one or more typed events
+ */
+export type WebhookEventHandler<E extends EmitterWebhookEventName> = (
+  event: EmitterWebhookEvent<E>
+) => Promise<WebhookHandlerResult | void>;
+
+/**
+ * Dispatches verified webhook deliveries to typed handlers
+ *
+ * Built on the @octokit/webhooks event handler so handlers can be registered
+ * per event and action (e.g. `pull_request.synchronize`). Signature
+ * verification happens before dispatch, so the emitter is used without a secret.
+ */
+export class WebhookEventRouter {
+  private emitter = createEventHandler({});
+  private results = new Map<string, WebhookHandlerResult>();
+  private logger: Logger;
+
+  /**
+   * Creates a new router
+   *
+   * @param logger - Optional logger instance for dependency injection
+   */
+  constructor(logger?: Logger) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Register a handler for one or more events
+   *
+   * @param event - Event name(s), with or without action
+   * @param handler - Handler; its result is reported back from dispatch
+   */
+  on<E extends EmitterWebhookEventName>(event: E | E[], handler: WebhookEventHandler<E>): void {
+    this.emitter.on(event, async webhookEvent => {
+      const result = await handler(webhookEvent as EmitterWebhookEvent<E>);
+      if (result) {
+        this.results.set(webhookEvent.id, result);
+      }
+    });
+  }
+
+  /**
+   * Dispatch a delivery to the registered handlers
+   *
+   * @param id - Delivery ID from the X-GitHub-Delivery header
+   * @param name - Event name from the X-GitHub-Event header
+   * @param payload - Parsed and verified webhook payload
+   * @returns Result reported by the handler, or an 'ignored' result if none handled it
+   * @throws The first error thrown by a handler
+   */
+  async dispatch(id: string | undefined, name: string, payload: unknown): Promise<WebhookHandlerResult> {
+    const deliveryId = id || randomUUID();
+
+    try {
+      await this.emitter.receive({ id: deliveryId, name, payload } as EmitterWebhookEvent);
+      return this.results.get(deliveryId) ?? {
+        outcome: 'ignored',
+        message: `Event '${this.describe(name, payload)}' is not handled`
+      };
+    } catch (error) {
+      // The emitter wraps handler errors in an AggregateError
+      const handlerErrors = (error as { errors?: Error[]; }).errors;
+      const cause = handlerErrors?.[0] ?? (error as Error);
+      this.logger.error('Webhook handler failed', cause, { delivery: deliveryId, event: name });
+      throw cause;
+    } finally {
+      this.results.delete(deliveryId);
+    }
+  }
+
+  private describe(name: string, payload: unknown): string {
+    const action = (payload as { action?: string; } | null)?.action;
+    return action ? `${name}.${action}` : name;
+  }
+}
@@ -0,0 +1,108 @@
+import { AIChatMessage } from '../types/ai';
+import { ReviewThreadComment } from '../types';
+import { Logger } from '../utils/logger';
+import { followUpPrompt } from '../utils/ai-prompts';
+import { aiRequestDuration, aiRequests } from '../utils/metrics';
+import { GitHubService } from './github';
+import { AIClient } from './ai-client';
+
+/**
+ * Marker on inline comments created by a review
+ */
+const FINDING_MARKER = '<!-- code-critics-comment -->';
+
+/**
+ * Answers replies in the review threads the bot started
+ *
+ * The AI gets the original finding, the diff hunk the thread is attached to
+ * and the conversation so far, and the answer is posted in the same thread.
+ */
+export class FollowUpService {
+  private logger: Logger;
+
+  /**
+   * Creates a new follow-up service
+   *
+   * @param githubService - GitHub service used to read the thread and reply
+   * @param aiClient - AI client that writes the answer
+   * @param logger - Optional logger instance for dependency injection
+   */
+  constructor(
+    private readonly githubService: GitHubService,
+    private readonly aiClient: AIClient,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Answer the latest reply in a review thread
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param rootCommentId - ID of the comment that started the thread
+   * @returns True if a reply was posted, false if the thread was not started by the bot
+   */
+  async answer(owner: string, repo: string, pullNumber: number, rootCommentId: number): Promise<boolean> {
+    const thread = await this.githubService.getReviewCommentThread(owner, repo, pullNumber, rootCommentId);
+    const [finding, ...replies] = thread;
+    if (!finding || !(await this.isOwnFinding(finding)) || replies.length === 0) {
+      this.logger.info('Not answering review thread', { pullNumber, rootCommentId, comments: thread.length });
+      return false;
+    }
+
+    this.logger.info('Answering follow-up in review thread', { pullNumber, rootCommentId, replies: replies.length });
+    const answer = await this.requestCompletion(this.buildMessages(finding, replies));
+
+    await this.githubService.replyToReviewComment(
+      owner,
+      repo,
+      pullNumber,
+      rootCommentId,
+      `${answer.trim()}\n\n---\n*Powered by Code Critics AI*\n<!-- code-critics-follow-up -->`
+    );
+    return true;
+  }
+
+  private async isOwnFinding(comment: ReviewThreadComment): Promise<boolean> {
+    return comment.body.includes(FINDING_MARKER) || comment.author === (await this.githubService.getBotLogin());
+  }
+
+  private buildMessages(finding: ReviewThreadComment, replies: ReviewThreadComment[]): AIChatMessage[] {
+    const location = finding.line ? `${finding.path}:${finding.line}` : finding.path;
+    const history = replies
+      .map(reply => `${reply.author} (${reply.createdAt}):\n${stripMarkers(reply.body)}`)
+      .join('\n\n');
+
+    return [
+      { role: 'user', content: followUpPrompt },
+      {
+        role: 'user',
+        content: `<<<THREAD>>>\nOriginal finding at \`${location}\`:\n${stripMarkers(finding.body)}\n\n` +
+          `Diff hunk:\n\`\`\`diff\n${finding.diffHunk}\n\`\`\`\n\n` +
+          `Replies, oldest first:\n${history}\n<<<THREAD>>>\n\nAnswer the latest reply.`
+      }
+    ];
+  }
+
+  private async requestCompletion(messages: AIChatMessage[]): Promise<string> {
+    const stopTimer = aiRequestDuration.startTimer();
+    const provider = this.aiClient.provider;
+    let outcome = 'success';
+
+    try {
+      return await this.aiClient.generateCompletion(messages);
+    } catch (error) {
+      outcome = 'error';
+      throw error;
+    } finally {
+      stopTimer({ provider, outcome });
+      aiRequests.inc({ provider, outcome });
+    }
+  }
+}
+
+function stripMarkers(body: string): string {
+  return body.replace(/<!--[\s\S]*?-->/g, '').replace(/<<<THREAD>>>/g, '').trim();
+}
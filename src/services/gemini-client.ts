@@ -1,13 +1,15 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { AIClient } from './ai-client';
-import { AIChatMessage } from '../types/ai';
+import { AIChatMessage, AIRequestOptions } from '../types/ai';
 import { Logger } from '../utils/logger';
+import { ReviewCancelledError } from '../utils/errors';
 
 /**
  * Client implementation for Google's Gemini AI API
  * Handles communication with Gemini Pro model
  */
 export class GeminiClient extends AIClient {
+  readonly provider = 'gemini';
   private model: GoogleGenerativeAI;
   private logger: Logger;
 
@@ -27,12 +29,14 @@ export class GeminiClient extends AIClient {
    * Generates a completion from Gemini's API based on provided messages
    * 
    * @param messages - Array of chat messages to send to the AI
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the AI's response text
+   * @throws ReviewCancelledError if the request is aborted
    * @throws Error if the API call fails or returns invalid data
    */
-  async generateCompletion(messages: AIChatMessage[]): Promise<string> {
+  async generateCompletion(messages: AIChatMessage[], options: AIRequestOptions = {}): Promise<string> {
     try {
-      const model = this.model.getGenerativeModel({ model: 'gemini-pro' });
+      const model = this.model.getGenerativeModel({ model: options.model ?? 'gemini-pro' });
       const chat = model.startChat({
         history: messages.map(msg => ({
           role: msg.role === 'user' ? 'user' : 'model',
@@ -43,10 +47,15 @@ export class GeminiClient extends AIClient {
         },
       });
 
-      const result = await chat.sendMessage(messages[messages.length - 1].content);
+      // The Gemini SDK does not accept an abort signal, so race the call instead
+      const result = await this.raceAbort(chat.sendMessage(messages[messages.length - 1].content), options.signal);
       const response = await result.response;
       return response.text();
     } catch (error) {
+      if (error instanceof ReviewCancelledError) {
+        throw error;
+      }
+
       // Sanitize error message to prevent sensitive data leakage
       const sanitizedError = this.sanitizeErrorMessage((error as Error).message);
       this.logger.error('Failed to generate completion with Gemini', error as Error);
@@ -54,6 +63,23 @@ export class GeminiClient extends AIClient {
     }
   }
 
+  /**
+   * Check that the Gemini API is reachable by fetching the model metadata
+   * 
+   * @param options - Optional request options such as an abort signal
+   * @throws Error if the API is unreachable or rejects the key
+   */
+  async checkHealth(options: AIRequestOptions = {}): Promise<void> {
+    const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro', {
+      headers: { 'x-goog-api-key': this.apiKey },
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini API health check failed: ${response.status} - ${response.statusText}`);
+    }
+  }
+
   /**
    * Sanitize error message to prevent sensitive data leakage
    * 
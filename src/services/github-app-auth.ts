@@ -0,0 +1,237 @@
+import { createSign } from 'crypto';
+import { Octokit } from '@octokit/rest';
+import { Logger } from '../utils/logger';
+import { GITHUB_APP } from '../utils/constants';
+
+/**
+ * Creates the Octokit client used for app-level requests, authenticated with a JWT
+ */
+export type AppOctokitFactory = (jwt: string) => Octokit;
+
+interface CachedInstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Octokit request function as passed to an auth strategy hook
+ */
+type OctokitRequest = Octokit['request'];
+
+/**
+ * Authentication for a GitHub App
+ *
+ * Signs short-lived JWTs with the app's private key and exchanges them for
+ * installation access tokens. Tokens are cached per installation until shortly
+ * before they expire.
+ */
+export class GitHubAppAuth {
+  private logger: Logger;
+  private tokens = new Map<number, CachedInstallationToken>();
+  private pendingTokens = new Map<number, Promise<string>>();
+  private botLogin: Promise<string> | null = null;
+
+  /**
+   * Creates a new GitHub App authenticator
+   *
+   * @param appId - GitHub App ID
+   * @param privateKey - PEM encoded private key of the app
+   * @param logger - Optional logger instance for dependency injection
+   * @param octokitFactory - Optional factory for app-level Octokit clients
+   * @param appSlug - Optional app slug; looked up from the API when missing
+   */
+  constructor(
+    private readonly appId: string,
+    private readonly privateKey: string,
+    logger?: Logger,
+    private readonly octokitFactory: AppOctokitFactory = jwt => new Octokit({ auth: jwt, userAgent: 'code-critics/1.0.0' }),
+    private readonly appSlug?: string
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Create a JWT identifying the app
+   *
+   * @param now - Current time in milliseconds (for testing)
+   * @returns RS256 signed JWT
+   */
+  createJwt(now: number = Date.now()): string {
+    const issuedAt = Math.floor(now / 1000) - GITHUB_APP.JWT_CLOCK_SKEW_SECONDS;
+    const header = { alg: 'RS256', typ: 'JWT' };
+    const payload = {
+      iat: issuedAt,
+      exp: issuedAt + GITHUB_APP.JWT_TTL_SECONDS,
+      iss: this.appId
+    };
+
+    const unsigned = `${this.encode(header)}.${this.encode(payload)}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(this.privateKey, 'base64url');
+    return `${unsigned}.${signature}`;
+  }
+
+  /**
+   * Get an access token for an installation, reusing a cached token while valid
+   *
+   * @param installationId - Installation ID from the webhook payload
+   * @returns Installation access token
+   * @throws Error if GitHub refuses to issue a token
+   */
+  async getInstallationToken(installationId: number): Promise<string> {
+    const cached = this.tokens.get(installationId);
+    if (cached && cached.expiresAt - GITHUB_APP.TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+
+    // Concurrent requests for the same installation share one token request
+    let pending = this.pendingTokens.get(installationId);
+    if (!pending) {
+      pending = this.requestInstallationToken(installationId)
+        .finally(() => this.pendingTokens.delete(installationId));
+      this.pendingTokens.set(installationId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Drop the cached token of an installation, e.g. after GitHub rejected it
+   *
+   * @param installationId - Installation ID
+   */
+  invalidateInstallationToken(installationId: number): void {
+    this.tokens.delete(installationId);
+  }
+
+  /**
+   * Get the login the app comments as, e.g. `code-critics[bot]`
+   *
+   * @returns Bot login of the app
+   */
+  async getBotLogin(): Promise<string> {
+    if (this.appSlug) {
+      return `${this.appSlug}[bot]`;
+    }
+
+    if (!this.botLogin) {
+      this.botLogin = this.getAppOctokit().rest.apps.getAuthenticated()
+        .then(({ data }) => `${data?.slug}[bot]`)
+        .catch(error => {
+          this.botLogin = null;
+          throw error;
+        });
+    }
+    return this.botLogin;
+  }
+
+  /**
+   * Find the installation of the app on a repository
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @returns Installation ID, or undefined if the app is not installed on the repository
+   * @throws Error if the installation cannot be looked up for other reasons
+   */
+  async getRepositoryInstallationId(owner: string, repo: string): Promise<number | undefined> {
+    try {
+      const { data } = await this.getAppOctokit().rest.apps.getRepoInstallation({ owner, repo });
+      return data.id;
+    } catch (error) {
+      if ((error as { status?: number; }).status === 404) {
+        return undefined;
+      }
+      this.logger.error('Failed to look up repository installation', error as Error, { repository: `${owner}/${repo}` });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an Octokit client authenticated as the app itself (JWT)
+   *
+   * Only app-level endpoints (e.g. `/app`, `/app/installations`) accept this.
+   *
+   * @returns Octokit client
+   */
+  getAppOctokit(): Octokit {
+    return this.octokitFactory(this.createJwt());
+  }
+
+  /**
+   * Octokit auth strategy that authenticates requests as the app itself
+   *
+   * A new JWT is signed for every request, so the client never expires.
+   *
+   * @returns Value for Octokit's `authStrategy` option
+   */
+  createAppAuthStrategy(): () => unknown {
+    return () => {
+      const auth = async () => ({ type: 'app', token: this.createJwt() });
+
+      const hook = async (request: OctokitRequest, route: string, parameters?: Record<string, unknown>) => {
+        const endpoint = request.endpoint.merge(route, parameters);
+        endpoint.headers.authorization = `bearer ${this.createJwt()}`;
+        return request(endpoint as typeof endpoint & { url: string; });
+      };
+
+      return Object.assign(auth, { hook });
+    };
+  }
+
+  /**
+   * Octokit auth strategy that authenticates requests as an installation
+   *
+   * Tokens are resolved per request, so long-running reviews transparently get
+   * a fresh token when the previous one expires. A request rejected with 401 is
+   * retried once with a newly issued token.
+   *
+   * @param installationId - Installation ID
+   * @returns Value for Octokit's `authStrategy` option
+   */
+  createInstallationAuthStrategy(installationId: number): () => unknown {
+    return () => {
+      const auth = async () => ({
+        type: 'token',
+        tokenType: 'installation',
+        token: await this.getInstallationToken(installationId)
+      });
+
+      const hook = async (request: OctokitRequest, route: string, parameters?: Record<string, unknown>) => {
+        const send = async () => {
+          const endpoint = request.endpoint.merge(route, parameters);
+          endpoint.headers.authorization = `token ${await this.getInstallationToken(installationId)}`;
+          return request(endpoint as typeof endpoint & { url: string; });
+        };
+
+        try {
+          return await send();
+        } catch (error) {
+          if ((error as { status?: number; }).status !== 401) {
+            throw error;
+          }
+          this.invalidateInstallationToken(installationId);
+          return send();
+        }
+      };
+
+      return Object.assign(auth, { hook });
+    };
+  }
+
+  private async requestInstallationToken(installationId: number): Promise<string> {
+    try {
+      const { data } = await this.getAppOctokit().rest.apps.createInstallationAccessToken({
+        installation_id: installationId
+      });
+
+      this.tokens.set(installationId, { token: data.token, expiresAt: Date.parse(data.expires_at) });
+      this.logger.debug('Issued installation access token', { installationId, expiresAt: data.expires_at });
+      return data.token;
+    } catch (error) {
+      this.logger.error('Failed to create installation access token', error as Error, { installationId });
+      throw error;
+    }
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+}
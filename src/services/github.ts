@@ -1,27 +1,59 @@
 import { Octokit } from '@octokit/rest';
-import { PullRequestData, ReviewComment, ReviewStatus } from '../types';
+import {
+  CollaboratorPermission,
+  CommentReaction,
+  LinkedIssue,
+  PullRequestData,
+  ReviewComment,
+  ReviewStatus,
+  ReviewSubmission,
+  ReviewThreadComment
+} from '../types';
 import { Logger } from '../utils/logger';
 import config from '../utils/config';
+import { COLLABORATOR_PERMISSIONS, GITHUB_APP } from '../utils/constants';
+import { GitHubAppAuth } from './github-app-auth';
+import { ReviewPublisher } from './review-publisher';
+import { renderUnplacedComments } from '../utils/comment-placement';
+import { commentsPosted, githubRateLimitLimit, githubRateLimitRemaining } from '../utils/metrics';
 
 /**
  * Service for interacting with GitHub API
  * Uses dependency injection for better testability
+ *
+ * Authenticates with a personal access token, or as a GitHub App. In app mode
+ * the root service is authenticated as the app and `forInstallation` returns
+ * services authenticated as a specific installation.
  */
-export class GitHubService {
+export class GitHubService implements ReviewPublisher {
   private octokit: Octokit;
   private logger: Logger;
+  private installations = new Map<number, GitHubService>();
 
   /**
    * Creates a new GitHub service instance
    * 
    * @param octokit - Optional Octokit instance for dependency injection
    * @param logger - Optional logger instance for dependency injection
+   * @param appAuth - GitHub App authentication; when omitted the configured token is used
+   * @param installationId - Installation to authenticate as (app mode only)
    */
-  constructor(octokit?: Octokit, logger?: Logger) {
+  constructor(
+    octokit?: Octokit,
+    logger?: Logger,
+    private readonly appAuth?: GitHubAppAuth,
+    private readonly installationId?: number
+  ) {
     this.logger = logger || new Logger();
     
+    const auth = !appAuth
+      ? { auth: config.GITHUB_TOKEN }
+      : installationId
+        ? { authStrategy: appAuth.createInstallationAuthStrategy(installationId) }
+        : { authStrategy: appAuth.createAppAuthStrategy() };
+
     this.octokit = octokit || new Octokit({
-      auth: config.GITHUB_TOKEN,
+      ...auth,
       userAgent: 'code-critics/1.0.0',
       log: {
         debug: (msg: string, ...args: any[]) => this.logger.debug(this.sanitizeLogMessage(msg), ...args),
@@ -46,13 +78,60 @@ export class GitHubService {
   }
 
   /**
-   * Validate GitHub token and get authenticated user info
+   * Get a service authenticated as a GitHub App installation
+   *
+   * In token mode, or without an installation ID, this service is returned.
+   *
+   * @param installationId - Installation ID from the webhook payload
+   * @returns GitHubService for the installation
+   */
+  forInstallation(installationId?: number): GitHubService {
+    if (!this.appAuth || !installationId || installationId === this.installationId) {
+      return this;
+    }
+
+    let service = this.installations.get(installationId);
+    if (!service) {
+      service = new GitHubService(undefined, this.logger, this.appAuth, installationId);
+      this.installations.set(installationId, service);
+    }
+    return service;
+  }
+
+  /**
+   * Get the login the service's comments are posted as
+   *
+   * @returns Bot login of the GitHub App, or the conventional bot login in token mode
+   */
+  async getBotLogin(): Promise<string> {
+    return this.appAuth ? this.appAuth.getBotLogin() : GITHUB_APP.DEFAULT_BOT_LOGIN;
+  }
+
+  /**
+   * Get the token used for requests made outside Octokit
+   */
+  private async getAccessToken(): Promise<string | undefined> {
+    const auth = await (this.octokit.auth() as Promise<{ token?: string; }>);
+    return auth?.token;
+  }
+
+  /**
+   * Validate GitHub credentials and get authenticated user info
+   * 
+   * In app mode this resolves to the app's bot user.
    * 
    * @returns Promise resolving to user login and ID
    * @throws Error if token is invalid
    */
   async validateToken(): Promise<{ login: string; id: number; }> {
     try {
+      if (this.appAuth && !this.installationId) {
+        const { data: app } = await this.octokit.rest.apps.getAuthenticated();
+        const login = await this.getBotLogin();
+        this.logger.info('GitHub App credentials validated', { app: app?.slug });
+        return { login, id: app?.id ?? 0 };
+      }
+
       const { data } = await this.octokit.rest.users.getAuthenticated();
       this.logger.info('GitHub token validated', { user: data.login });
       return { login: data.login, id: data.id };
@@ -121,7 +200,7 @@ export class GitHubService {
         
         const response = await fetch(validatedUrl, {
           headers: {
-            'Authorization': `token ${config.GITHUB_TOKEN}`,
+            'Authorization': `token ${await this.getAccessToken()}`,
             'Accept': 'application/vnd.github.v3.diff'
           }
         });
@@ -167,6 +246,9 @@ export class GitHubService {
         number: pr.number,
         title: pr.title,
         body: pr.body || '',
+        headSha: pr.head.sha,
+        baseSha: pr.base.sha,
+        baseRef: pr.base.ref,
         diff,
         files: filteredFiles.map(file => ({
           filename: file.filename,
@@ -182,6 +264,231 @@ export class GitHubService {
     }
   }
   
+  /**
+   * Get the diff of the commits pushed on top of an earlier head
+   * 
+   * Only linear history qualifies: after a force-push or rebase the earlier
+   * head is no longer an ancestor, and merge commits would bring in changes
+   * from the base branch, so null is returned and a full review is needed.
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param baseSha - Previously reviewed head commit
+   * @param headSha - Current head commit
+   * @returns The diff between the two commits, or null if it cannot be used
+   * @throws Error if the comparison fails for reasons other than a missing commit
+   */
+  async getIncrementalDiff(
+    owner: string,
+    repo: string,
+    baseSha: string,
+    headSha: string
+  ): Promise<string | null> {
+    try {
+      const { data: comparison } = await this.octokit.rest.repos.compareCommits({
+        owner,
+        repo,
+        base: baseSha,
+        head: headSha
+      });
+
+      const hasMergeCommits = comparison.commits.some(commit => commit.parents.length > 1);
+      if (comparison.status !== 'ahead' || hasMergeCommits) {
+        this.logger.info('History is not linear since the last review', {
+          baseSha,
+          headSha,
+          status: comparison.status,
+          hasMergeCommits
+        });
+        return null;
+      }
+
+      const { data: diff } = await this.octokit.rest.repos.compareCommits({
+        owner,
+        repo,
+        base: baseSha,
+        head: headSha,
+        mediaType: { format: 'diff' }
+      });
+      return diff as unknown as string;
+    } catch (error) {
+      // The earlier head is gone after a force-push once GitHub garbage-collects it
+      if ((error as { status?: number; }).status === 404) {
+        this.logger.info('Previously reviewed commit no longer exists', { baseSha });
+        return null;
+      }
+      this.logger.error('Failed to fetch incremental diff', error as Error, { baseSha, headSha });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the branch a pull request merges into
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @returns Name of the base branch
+   * @throws Error if the pull request cannot be fetched
+   */
+  async getPullRequestBaseRef(owner: string, repo: string, pullNumber: number): Promise<string> {
+    try {
+      const { data: pr } = await this.octokit.rest.pulls.get({ owner, repo, pull_number: pullNumber });
+      return pr.base.ref;
+    } catch (error) {
+      this.logger.error('Failed to fetch pull request base branch', error as Error, { pullNumber });
+      throw error;
+    }
+  }
+
+  /**
+   * Read a file from a repository
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param path - File path
+   * @param ref - Branch, tag or commit to read from
+   * @returns File contents, or null if there is no such file
+   * @throws Error if the file cannot be read for other reasons
+   */
+  async getFileContent(owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.rest.repos.getContent({ owner, repo, path, ref });
+
+      // Directories come back as arrays, symlinks and submodules without content,
+      // files over 1 MB without an encoding
+      if (Array.isArray(data) || data.type !== 'file' || !('content' in data) || data.encoding !== 'base64') {
+        return null;
+      }
+      return Buffer.from(data.content, 'base64').toString('utf8');
+    } catch (error) {
+      if ((error as { status?: number; }).status === 404) {
+        return null;
+      }
+      this.logger.error('Failed to read repository file', error as Error, { path, ref });
+      throw error;
+    }
+  }
+
+  /**
+   * Read several files from a repository within a size budget
+   * 
+   * Files are read one after another; a file that does not fit in what is
+   * left of the budget is skipped, and so is a file that cannot be read.
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param paths - File paths
+   * @param ref - Branch, tag or commit to read from
+   * @param maxSize - Total number of bytes to read at most
+   * @returns Contents by path of the files that were read
+   */
+  async getFileContents(
+    owner: string,
+    repo: string,
+    paths: string[],
+    ref: string,
+    maxSize: number
+  ): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    let remaining = maxSize;
+
+    for (const path of paths) {
+      let content: string | null;
+      try {
+        content = await this.getFileContent(owner, repo, path, ref);
+      } catch {
+        continue;
+      }
+      if (content === null) {
+        continue;
+      }
+
+      const size = Buffer.byteLength(content, 'utf8');
+      if (size > remaining) {
+        this.logger.debug('Skipping file over the context budget', { path, size, remaining });
+        continue;
+      }
+      contents.set(path, content);
+      remaining -= size;
+    }
+
+    return contents;
+  }
+
+  /**
+   * List the files of a repository at a commit
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Branch, tag or commit to list
+   * @returns Paths of all files; possibly incomplete for very large repositories
+   * @throws Error if the tree cannot be fetched
+   */
+  async getRepositoryTree(owner: string, repo: string, ref: string): Promise<string[]> {
+    try {
+      const { data } = await this.octokit.rest.git.getTree({ owner, repo, tree_sha: ref, recursive: 'true' });
+      if (data.truncated) {
+        this.logger.warn('Repository tree is truncated', { repository: `${owner}/${repo}`, ref });
+      }
+      return data.tree
+        .filter(entry => entry.type === 'blob' && entry.path)
+        .map(entry => entry.path as string);
+    } catch (error) {
+      this.logger.error('Failed to fetch repository tree', error as Error, { ref });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the messages of a pull request's commits
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @returns Commit messages, oldest first; at most the first 100 commits
+   * @throws Error if the commits cannot be fetched
+   */
+  async getPullRequestCommitMessages(owner: string, repo: string, pullNumber: number): Promise<string[]> {
+    try {
+      const { data: commits } = await this.octokit.rest.pulls.listCommits({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100
+      });
+      return commits.map(commit => commit.commit.message);
+    } catch (error) {
+      this.logger.error('Failed to fetch pull request commits', error as Error, { pullNumber });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an issue
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param issueNumber - Issue number
+   * @returns Title and body of the issue, or null if there is no such issue or it is a pull request
+   * @throws Error if the issue cannot be fetched for other reasons
+   */
+  async getIssue(owner: string, repo: string, issueNumber: number): Promise<LinkedIssue | null> {
+    try {
+      const { data: issue } = await this.octokit.rest.issues.get({ owner, repo, issue_number: issueNumber });
+      if (issue.pull_request) {
+        return null;
+      }
+      return { number: issue.number, title: issue.title, body: issue.body || '' };
+    } catch (error) {
+      if ((error as { status?: number; }).status === 404) {
+        return null;
+      }
+      this.logger.error('Failed to fetch issue', error as Error, { issueNumber });
+      throw error;
+    }
+  }
+
   /**
    * Validate and sanitize diff URL to prevent SSRF attacks
    * Only accept GitHub API URLs for the specific repository and PR
@@ -265,6 +572,7 @@ export class GitHubService {
         commit_id: pr.head.sha
       });
 
+      commentsPosted.inc({ kind: 'inline' });
       this.logger.debug('Posted inline comment', {
         path: comment.path,
         line: comment.line
@@ -293,24 +601,136 @@ export class GitHubService {
     pullNumber: number,
     body: string
   ): Promise<void> {
+    await this.createPRComment(owner, repo, pullNumber, body);
+  }
+
+  /**
+   * Post a general comment on the PR and return its ID for later updates
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param body - Comment body
+   * @returns ID of the created comment
+   * @throws Error if comment cannot be posted
+   */
+  async createPRComment(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    body: string
+  ): Promise<number> {
     try {
-      await this.octokit.rest.issues.createComment({
+      const { data } = await this.octokit.rest.issues.createComment({
         owner,
         repo,
         issue_number: pullNumber,
         body
       });
 
+      commentsPosted.inc({ kind: 'issue_comment' });
       this.logger.debug('Posted PR comment');
+      return data.id;
     } catch (error) {
       this.logger.error('Failed to post PR comment', error as Error);
       throw error;
     }
   }
 
+  /**
+   * Replace the body of a PR comment
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param commentId - ID of the comment
+   * @param body - New comment body
+   * @throws Error if comment cannot be updated
+   */
+  async updatePRComment(
+    owner: string,
+    repo: string,
+    commentId: number,
+    body: string
+  ): Promise<void> {
+    try {
+      await this.octokit.rest.issues.updateComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        body
+      });
+      this.logger.debug('Updated PR comment', { commentId });
+    } catch (error) {
+      this.logger.error('Failed to update PR comment', error as Error, { commentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a reaction to a PR comment
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param commentId - ID of the comment
+   * @param content - Reaction to add
+   * @returns ID of the reaction, needed to remove it again
+   * @throws Error if the reaction cannot be added
+   */
+  async addCommentReaction(
+    owner: string,
+    repo: string,
+    commentId: number,
+    content: CommentReaction
+  ): Promise<number> {
+    try {
+      const { data } = await this.octokit.rest.reactions.createForIssueComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        content
+      });
+      return data.id;
+    } catch (error) {
+      this.logger.error('Failed to add comment reaction', error as Error, { commentId, content });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a reaction the bot added to a PR comment
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param commentId - ID of the comment
+   * @param reactionId - ID returned by addCommentReaction
+   * @throws Error if the reaction cannot be removed
+   */
+  async removeCommentReaction(
+    owner: string,
+    repo: string,
+    commentId: number,
+    reactionId: number
+  ): Promise<void> {
+    try {
+      await this.octokit.rest.reactions.deleteForIssueComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        reaction_id: reactionId
+      });
+    } catch (error) {
+      this.logger.error('Failed to remove comment reaction', error as Error, { commentId, reactionId });
+      throw error;
+    }
+  }
+
   /**
    * Create a review with multiple inline comments and a summary
    * 
+   * If GitHub rejects the review because of a comment it cannot place (422),
+   * the comments are posted one by one and those that still fail are moved
+   * into the summary.
+   * 
    * @param owner - Repository owner
    * @param repo - Repository name
    * @param pullNumber - Pull request number
@@ -321,17 +741,14 @@ export class GitHubService {
     owner: string,
     repo: string,
     pullNumber: number,
-    review: {
-      body: string;
-      event: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
-      comments: ReviewComment[];
-    }
+    review: ReviewSubmission
   ): Promise<void> {
     try {
       await this.octokit.rest.pulls.createReview({
         owner,
         repo,
         pull_number: pullNumber,
+        commit_id: review.commitId,
         body: review.body,
         event: review.event,
         comments: review.comments.map(comment => ({
@@ -341,16 +758,173 @@ export class GitHubService {
         }))
       });
 
+      commentsPosted.inc({ kind: 'review_comment' }, review.comments.length);
       this.logger.info('Created review', {
         event: review.event,
         commentsCount: review.comments.length
       });
     } catch (error) {
+      if ((error as { status?: number; }).status === 422 && review.comments.length > 0) {
+        this.logger.warn('Review rejected, posting comments individually', {
+          pullNumber,
+          commentsCount: review.comments.length,
+          error: (error as Error).message
+        });
+        const failed = await this.createReviewCommentsIndividually(owner, repo, pullNumber, review);
+        await this.createReview(owner, repo, pullNumber, {
+          ...review,
+          body: review.body + renderUnplacedComments(failed),
+          comments: []
+        });
+        return;
+      }
       this.logger.error('Failed to create review', error as Error);
       throw error;
     }
   }
 
+  private async createReviewCommentsIndividually(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    review: ReviewSubmission
+  ): Promise<ReviewComment[]> {
+    const commitId = review.commitId ?? (await this.octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: pullNumber
+    })).data.head.sha;
+    const failed: ReviewComment[] = [];
+
+    for (const comment of review.comments) {
+      try {
+        await this.octokit.rest.pulls.createReviewComment({
+          owner,
+          repo,
+          pull_number: pullNumber,
+          commit_id: commitId,
+          body: comment.body,
+          path: comment.path,
+          line: comment.line,
+          side: comment.side || 'RIGHT'
+        });
+        commentsPosted.inc({ kind: 'inline' });
+      } catch (error) {
+        this.logger.warn('Could not post review comment, moving it to the summary', {
+          path: comment.path,
+          line: comment.line,
+          error: (error as Error).message
+        });
+        failed.push(comment);
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * Get a user's permission on a repository
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param username - Login of the user
+   * @returns The user's role, or 'none' if they are not a collaborator
+   * @throws Error if the permission cannot be checked
+   */
+  async getCollaboratorPermission(owner: string, repo: string, username: string): Promise<CollaboratorPermission> {
+    try {
+      const { data } = await this.octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+
+      // role_name distinguishes triage and maintain; custom roles fall back to the base permission
+      const role = data.role_name as CollaboratorPermission;
+      return COLLABORATOR_PERMISSIONS.includes(role) ? role : data.permission as CollaboratorPermission;
+    } catch (error) {
+      if ((error as { status?: number; }).status === 404) {
+        return 'none';
+      }
+      this.logger.error('Failed to check collaborator permission', error as Error, { username });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a review comment thread in chronological order
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param rootCommentId - ID of the comment that started the thread
+   * @returns The root comment followed by its replies, or an empty array if the root was deleted
+   * @throws Error if the comments cannot be fetched
+   */
+  async getReviewCommentThread(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    rootCommentId: number
+  ): Promise<ReviewThreadComment[]> {
+    try {
+      const comments = await this.octokit.paginate(this.octokit.rest.pulls.listReviewComments, {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100
+      });
+
+      const thread = comments
+        .filter(comment => comment.id === rootCommentId || comment.in_reply_to_id === rootCommentId)
+        .sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+        .map(comment => ({
+          id: comment.id,
+          author: comment.user?.login || 'unknown',
+          body: comment.body,
+          createdAt: comment.created_at,
+          path: comment.path,
+          line: comment.line ?? comment.original_line ?? undefined,
+          diffHunk: comment.diff_hunk
+        }));
+
+      return thread[0]?.id === rootCommentId ? thread : [];
+    } catch (error) {
+      this.logger.error('Failed to fetch review comment thread', error as Error, { rootCommentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Reply in a review comment thread
+   * 
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param commentId - ID of the thread's root comment
+   * @param body - Reply body
+   * @throws Error if the reply cannot be posted
+   */
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<void> {
+    try {
+      await this.octokit.rest.pulls.createReplyForReviewComment({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        comment_id: commentId,
+        body
+      });
+
+      commentsPosted.inc({ kind: 'review_reply' });
+      this.logger.debug('Replied to review comment', { commentId });
+    } catch (error) {
+      this.logger.error('Failed to reply to review comment', error as Error, { commentId });
+      throw error;
+    }
+  }
+
   /**
    * Find existing bot comments to avoid duplication
    * 
@@ -371,9 +945,11 @@ export class GitHubService {
         issue_number: pullNumber
       });
 
+      const botLogin = await this.getBotLogin();
+
       return comments
         .filter(comment =>
-          comment.user?.login === 'code-critics[bot]' ||
+          comment.user?.login === botLogin ||
           (comment.body?.includes('<!-- code-critics-comment -->') || false) ||
           (comment.body?.includes('<!-- code-critics-review -->') || false)
         )
@@ -402,6 +978,8 @@ export class GitHubService {
   }> {
     try {
       const { data } = await this.octokit.rest.rateLimit.get();
+      githubRateLimitRemaining.set(undefined, data.rate.remaining);
+      githubRateLimitLimit.set(undefined, data.rate.limit);
 
       return {
         limit: data.rate.limit,
@@ -474,24 +1052,56 @@ export class GitHubService {
     description: string,
     context: string = 'CodeCritic AI Review'
   ): Promise<void> {
+    let headSha: string;
     try {
       const { data: pr } = await this.octokit.rest.pulls.get({
         owner,
         repo,
         pull_number: pullNumber,
       });
+      headSha = pr.head.sha;
+    } catch (error) {
+      this.logger.error('Failed to set commit status', error as Error, { owner, repo, pullNumber, status });
+      throw error;
+    }
+
+    await this.setCommitStatusForSha(owner, repo, headSha, status, description, context);
+  }
 
+  /**
+   * Set commit status on a specific commit
+   *
+   * Used when the reviewed head SHA is known, so a slow review of an older
+   * push cannot overwrite the status of a newer one.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param sha - Commit SHA
+   * @param status - Status to set
+   * @param description - Status description
+   * @param context - Status context
+   * @throws Error if status cannot be set
+   */
+  async setCommitStatusForSha(
+    owner: string,
+    repo: string,
+    sha: string,
+    status: ReviewStatus,
+    description: string,
+    context: string = 'CodeCritic AI Review'
+  ): Promise<void> {
+    try {
       await this.octokit.rest.repos.createCommitStatus({
         owner,
         repo,
-        sha: pr.head.sha,
+        sha,
         state: status === 'pending' ? 'pending' : status === 'success' ? 'success' : 'failure',
         description,
         context,
       });
-      this.logger.info(`Set commit status to '${status}' for PR #${pullNumber}`, { owner, repo, pullNumber, status, description });
+      this.logger.info(`Set commit status to '${status}' for ${sha.substring(0, 7)}`, { owner, repo, sha, status, description });
     } catch (error) {
-      this.logger.error('Failed to set commit status', error as Error, { owner, repo, pullNumber, status });
+      this.logger.error('Failed to set commit status', error as Error, { owner, repo, sha, status });
       throw error;
     }
   }
@@ -0,0 +1,216 @@
+import { ComponentHealth, HealthStatus, ReadinessReport } from '../types';
+import { Logger } from '../utils/logger';
+import config from '../utils/config';
+import { HEALTH_CHECK } from '../utils/constants';
+import { GitHubService } from './github';
+import { AIClient } from './ai-client';
+import { ReviewQueue } from './review-queue';
+
+export interface HealthCheckerOptions {
+  /** How long results of outbound checks (GitHub, AI provider) are reused */
+  cacheTtlMs: number;
+  /** Pending reviews before the queue is reported as degraded */
+  maxBacklog: number;
+  /** Timeout for each outbound probe */
+  probeTimeoutMs: number;
+}
+
+interface CachedProbes {
+  components: Record<string, ComponentHealth>;
+  expiresAt: number;
+}
+
+const STATUS_SEVERITY: Record<HealthStatus, number> = { ok: 0, degraded: 1, error: 2 };
+
+/**
+ * Liveness and readiness checks
+ *
+ * Liveness never leaves the process. Readiness checks the configuration, the
+ * review queue backlog, GitHub and the AI provider; the outbound checks are
+ * cached so frequent probes do not hammer external APIs or burn rate limit.
+ */
+export class HealthChecker {
+  private logger: Logger;
+  private options: HealthCheckerOptions;
+  private cachedProbes: CachedProbes | null = null;
+  private pendingProbes: Promise<Record<string, ComponentHealth>> | null = null;
+  private readonly startedAt = Date.now();
+
+  /**
+   * Creates a new health checker
+   *
+   * @param githubService - GitHub service used for the credential and rate limit check
+   * @param getAIClient - Resolves the AI client; may throw when no provider is configured
+   * @param reviewQueue - Review queue whose backlog is reported
+   * @param logger - Optional logger instance for dependency injection
+   * @param options - Optional overrides for caching, backlog and timeout settings
+   */
+  constructor(
+    private readonly githubService: GitHubService,
+    private readonly getAIClient: () => AIClient,
+    private readonly reviewQueue: ReviewQueue,
+    logger?: Logger,
+    options?: Partial<HealthCheckerOptions>
+  ) {
+    this.logger = logger || new Logger();
+    this.options = {
+      cacheTtlMs: config.HEALTH_CACHE_TTL_MS,
+      maxBacklog: config.HEALTH_MAX_BACKLOG,
+      probeTimeoutMs: HEALTH_CHECK.PROBE_TIMEOUT_MS,
+      ...options
+    };
+  }
+
+  /**
+   * Liveness: the process is up and serving requests
+   *
+   * @returns Liveness status without any outbound calls
+   */
+  checkLiveness(): { status: HealthStatus; uptimeSeconds: number; timestamp: string; } {
+    return {
+      status: 'ok',
+      uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Readiness: the service can accept and process reviews
+   *
+   * @returns Overall status and per-component results
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const components: Record<string, ComponentHealth> = {
+      config: this.checkConfig(),
+      queue: await this.checkQueue(),
+      ...(await this.getProbes())
+    };
+
+    const status = Object.values(components)
+      .map(component => component.status)
+      .reduce<HealthStatus>((worst, current) =>
+        STATUS_SEVERITY[current] > STATUS_SEVERITY[worst] ? current : worst, 'ok');
+
+    return { status, checkedAt: new Date().toISOString(), components };
+  }
+
+  private checkConfig(): ComponentHealth {
+    const missing: string[] = [];
+    if (config.WEBHOOK_SECRETS.length === 0) {
+      missing.push('WEBHOOK_SECRET');
+    }
+    if (config.GITHUB_AUTH_MODE === 'app') {
+      if (!config.GITHUB_APP_ID) missing.push('GITHUB_APP_ID');
+      if (!config.GITHUB_PRIVATE_KEY) missing.push('GITHUB_PRIVATE_KEY');
+    } else if (!config.GITHUB_TOKEN) {
+      missing.push('GITHUB_TOKEN');
+    }
+
+    return {
+      status: missing.length > 0 ? 'error' : 'ok',
+      message: missing.length > 0 ? `Missing configuration: ${missing.join(', ')}` : undefined,
+      details: {
+        githubAuthMode: config.GITHUB_AUTH_MODE,
+        webhookSecrets: config.WEBHOOK_SECRETS.length,
+        aiProvider: config.AI_PROVIDER
+      }
+    };
+  }
+
+  private async checkQueue(): Promise<ComponentHealth> {
+    try {
+      const stats = await this.reviewQueue.getStats();
+      const backlogged = stats.pending > this.options.maxBacklog;
+      return {
+        status: backlogged ? 'degraded' : 'ok',
+        message: backlogged ? `${stats.pending} reviews pending (limit ${this.options.maxBacklog})` : undefined,
+        details: { ...stats }
+      };
+    } catch (error) {
+      this.logger.error('Review queue health check failed', error as Error);
+      return { status: 'error', message: 'Review queue state is unavailable' };
+    }
+  }
+
+  private async getProbes(): Promise<Record<string, ComponentHealth>> {
+    if (this.cachedProbes && this.cachedProbes.expiresAt > Date.now()) {
+      return this.cachedProbes.components;
+    }
+
+    // Concurrent probes share one set of outbound calls
+    if (!this.pendingProbes) {
+      this.pendingProbes = Promise.all([this.checkGitHub(), this.checkAIProvider()])
+        .then(([github, ai]) => {
+          const components = { github, ai };
+          this.cachedProbes = { components, expiresAt: Date.now() + this.options.cacheTtlMs };
+          return components;
+        })
+        .finally(() => {
+          this.pendingProbes = null;
+        });
+    }
+    return this.pendingProbes;
+  }
+
+  private async checkGitHub(): Promise<ComponentHealth> {
+    const startTime = Date.now();
+    try {
+      const user = await this.withTimeout(this.githubService.validateToken());
+
+      let rateLimit = null;
+      try {
+        rateLimit = await this.withTimeout(this.githubService.checkRateLimit());
+      } catch (error) {
+        this.logger.warn('Could not fetch rate limit info', { error: (error as Error).message });
+      }
+
+      const exhausted = rateLimit?.remaining === 0;
+      return {
+        status: exhausted ? 'degraded' : 'ok',
+        message: exhausted ? `Rate limit exhausted until ${rateLimit!.reset.toISOString()}` : undefined,
+        latencyMs: Date.now() - startTime,
+        details: {
+          user: user.login,
+          rateLimit: rateLimit ? {
+            remaining: rateLimit.remaining,
+            limit: rateLimit.limit,
+            reset: rateLimit.reset
+          } : null
+        }
+      };
+    } catch (error) {
+      this.logger.error('GitHub API health check failed', error as Error);
+      return { status: 'error', message: (error as Error).message, latencyMs: Date.now() - startTime };
+    }
+  }
+
+  private async checkAIProvider(): Promise<ComponentHealth> {
+    const startTime = Date.now();
+    let provider: string | undefined;
+    try {
+      const aiClient = this.getAIClient();
+      provider = aiClient.provider;
+      await aiClient.checkHealth({ signal: AbortSignal.timeout(this.options.probeTimeoutMs) });
+      return { status: 'ok', latencyMs: Date.now() - startTime, details: { provider } };
+    } catch (error) {
+      this.logger.error('AI provider health check failed', error as Error, { provider });
+      return {
+        status: 'error',
+        message: (error as Error).message,
+        latencyMs: Date.now() - startTime,
+        details: { provider }
+      };
+    }
+  }
+
+  private withTimeout<T>(operation: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Health check timed out after ${this.options.probeTimeoutMs}ms`)),
+        this.options.probeTimeoutMs
+      );
+    });
+    return Promise.race([operation, timeout]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,141 @@
+import { PullRequestSettings, ReviewResult } from '../types';
+import { Logger } from '../utils/logger';
+import { StateStore } from '../utils/state-store';
+
+/**
+ * Persisted per-pull-request review state
+ *
+ * Holds whether automatic reviews are paused, which findings were ignored and
+ * which head was reviewed last. Pull requests without a record use the
+ * defaults: not paused, nothing ignored, never reviewed.
+ */
+export class PullRequestSettingsService {
+  private logger: Logger;
+
+  /**
+   * Creates a new pull request settings service
+   *
+   * @param store - Store used to persist the settings
+   * @param logger - Optional logger instance for dependency injection
+   */
+  constructor(
+    private readonly store: StateStore<PullRequestSettings>,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Get the settings of a pull request
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @returns Stored settings, or the defaults
+   */
+  async get(owner: string, repo: string, pullNumber: number): Promise<PullRequestSettings> {
+    return (await this.store.get(this.key(owner, repo, pullNumber))) ?? {
+      repository: `${owner}/${repo}`,
+      pullNumber,
+      paused: false,
+      ignoredFindings: [],
+      updatedAt: new Date(0).toISOString()
+    };
+  }
+
+  /**
+   * Pause or resume automatic reviews
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param paused - True to pause, false to resume
+   * @param updatedBy - Login of the user who sent the command
+   * @returns Updated settings
+   */
+  async setPaused(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    paused: boolean,
+    updatedBy?: string
+  ): Promise<PullRequestSettings> {
+    const settings = await this.update(owner, repo, pullNumber, { paused }, updatedBy);
+    this.logger.info(paused ? 'Paused automatic reviews' : 'Resumed automatic reviews', {
+      repository: settings.repository,
+      pullNumber,
+      updatedBy
+    });
+    return settings;
+  }
+
+  /**
+   * Stop reporting a finding on a pull request
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param findingId - Finding ID shown under the review comment
+   * @param updatedBy - Login of the user who sent the command
+   * @returns Updated settings
+   */
+  async ignoreFinding(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    findingId: string,
+    updatedBy?: string
+  ): Promise<PullRequestSettings> {
+    const { ignoredFindings } = await this.get(owner, repo, pullNumber);
+    const settings = await this.update(owner, repo, pullNumber, {
+      ignoredFindings: ignoredFindings.includes(findingId) ? ignoredFindings : [...ignoredFindings, findingId]
+    }, updatedBy);
+    this.logger.info('Ignored finding', { repository: settings.repository, pullNumber, findingId, updatedBy });
+    return settings;
+  }
+
+  /**
+   * Remember the head commit of a posted review
+   *
+   * Later pushes are reviewed from this commit on, so path-scoped reviews do not
+   * count: the previous head stays, and the next push is reviewed from there,
+   * including the files the path-scoped review left out.
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @param result - Outcome of the review
+   * @returns True if the head was recorded
+   */
+  async recordReview(owner: string, repo: string, pullNumber: number, result: ReviewResult): Promise<boolean> {
+    if (result.status !== 'completed' || !result.fullScope || !result.reviewedSha) {
+      return false;
+    }
+
+    const settings = await this.get(owner, repo, pullNumber);
+    await this.store.set(this.key(owner, repo, pullNumber), { ...settings, lastReviewedSha: result.reviewedSha });
+    return true;
+  }
+
+  private async update(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    changes: Partial<Pick<PullRequestSettings, 'paused' | 'ignoredFindings'>>,
+    updatedBy?: string
+  ): Promise<PullRequestSettings> {
+    const settings: PullRequestSettings = {
+      ...(await this.get(owner, repo, pullNumber)),
+      ...changes,
+      updatedAt: new Date().toISOString(),
+      updatedBy
+    };
+    await this.store.set(this.key(owner, repo, pullNumber), settings);
+    return settings;
+  }
+
+  // GitHub repository names are case-insensitive
+  private key(owner: string, repo: string, pullNumber: number): string {
+    return `${owner}/${repo}#${pullNumber}`.toLowerCase();
+  }
+}
@@ -0,0 +1,156 @@
+import { DiffFile } from '../types';
+import { Logger } from '../utils/logger';
+import { RELATED_FILES } from '../utils/constants';
+import { getDiffFilePath } from '../utils/diff-processor';
+import {
+  ImportLink,
+  estimateTokens,
+  extractSignatures,
+  extractUsages,
+  getDirectoryDistance,
+  getExportedNames,
+  getModuleName,
+  isRelatedFileSource,
+  isSameLanguage,
+  parseImports,
+  rankRelatedFiles,
+  renderRelatedFile,
+  resolveImport
+} from '../utils/related-files';
+import { GitHubService } from './github';
+
+/**
+ * Builds the related-files section of the review prompt
+ *
+ * Modules the changed files import are shown as signatures, files that
+ * import the changed files as the lines using them. Importers are looked for
+ * among the files closest to the change, since finding all of them would
+ * mean reading the whole repository.
+ */
+export class RelatedFilesContextBuilder {
+  private logger: Logger;
+
+  /**
+   * Creates a new related files context builder
+   *
+   * @param githubService - GitHub service used to read the repository
+   * @param logger - Optional logger instance for dependency injection
+   */
+  constructor(
+    private readonly githubService: GitHubService,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Render the files related to a change, most relevant first, within a token budget
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Commit the change is reviewed at
+   * @param files - Changed files
+   * @param maxTokens - Estimated tokens the section may take
+   * @param knownContents - Contents at ref that have already been read, by path
+   * @returns Delimited blocks, or an empty string if nothing related was found
+   * @throws Error if the repository tree cannot be fetched
+   */
+  async build(
+    owner: string,
+    repo: string,
+    ref: string,
+    files: DiffFile[],
+    maxTokens: number,
+    knownContents: Map<string, string> = new Map()
+  ): Promise<string> {
+    const changedPaths = files
+      .filter(file => file.newPath !== null && !file.binary)
+      .map(getDiffFilePath)
+      .filter(isRelatedFileSource);
+    if (changedPaths.length === 0 || maxTokens <= 0) {
+      return '';
+    }
+
+    const tree = await this.githubService.getRepositoryTree(owner, repo, ref);
+    const treeFiles = new Set(tree);
+    const changed = new Set(changedPaths);
+    const contents = new Map(knownContents);
+    let fetchBudget: number = RELATED_FILES.MAX_FETCH_SIZE;
+    const read = async (paths: string[]): Promise<void> => {
+      const missing = paths.filter(path => !contents.has(path));
+      const fetched = await this.githubService.getFileContents(owner, repo, missing, ref, fetchBudget);
+      for (const [path, content] of fetched) {
+        contents.set(path, content);
+        fetchBudget -= Buffer.byteLength(content, 'utf8');
+      }
+    };
+
+    // Modules imported by the changed files
+    await read(changedPaths);
+    const links: ImportLink[] = [];
+    for (const changedPath of changedPaths) {
+      for (const specifier of parseImports(changedPath, contents.get(changedPath) ?? '')) {
+        const resolved = resolveImport(changedPath, specifier, treeFiles);
+        if (resolved && !changed.has(resolved)) {
+          links.push({ path: resolved, relation: 'imported', changedPath });
+        }
+      }
+    }
+
+    // Files importing the changed files, searched among the nearest candidates
+    const candidates = tree
+      .filter(path => isRelatedFileSource(path) && !changed.has(path))
+      .map(path => ({
+        path,
+        distance: Math.min(...changedPaths
+          .filter(changedPath => isSameLanguage(path, changedPath))
+          .map(changedPath => getDirectoryDistance(path, changedPath)))
+      }))
+      .filter(candidate => Number.isFinite(candidate.distance))
+      .sort((a, b) => a.distance - b.distance || a.path.localeCompare(b.path))
+      .slice(0, RELATED_FILES.MAX_IMPORTER_CANDIDATES)
+      .map(candidate => candidate.path);
+    await read(candidates);
+    for (const candidate of candidates) {
+      for (const specifier of parseImports(candidate, contents.get(candidate) ?? '')) {
+        const resolved = resolveImport(candidate, specifier, treeFiles);
+        if (resolved && changed.has(resolved)) {
+          links.push({ path: candidate, relation: 'importer', changedPath: resolved });
+        }
+      }
+    }
+
+    const related = rankRelatedFiles(links, changedPaths);
+    await read(related.filter(file => file.relation === 'imported').map(file => file.path));
+
+    const sections: string[] = [];
+    let tokens = 0;
+    for (const file of related) {
+      const content = contents.get(file.path);
+      if (content === undefined) {
+        continue;
+      }
+      const lines = file.relation === 'imported'
+        ? extractSignatures(file.path, content)
+        : extractUsages(content, file.changedPaths.flatMap(path => [
+          ...getExportedNames(path, contents.get(path) ?? ''),
+          getModuleName(path)
+        ]));
+      if (lines.length === 0) {
+        continue;
+      }
+
+      // A file that does not fit may still leave room for a smaller one
+      const section = renderRelatedFile(file, lines);
+      const sectionTokens = estimateTokens(section);
+      if (tokens + sectionTokens > maxTokens) {
+        continue;
+      }
+      sections.push(section);
+      tokens += sectionTokens;
+    }
+
+    this.logger.info('Built related files context', { related: related.length, included: sections.length, tokens });
+    return sections.join('\n\n');
+  }
+}
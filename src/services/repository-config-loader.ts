@@ -0,0 +1,69 @@
+import { LoadedRepositoryConfig } from '../types';
+import { Logger } from '../utils/logger';
+import { REPOSITORY_CONFIG } from '../utils/constants';
+import { getDefaultRepositoryConfig, parseRepositoryConfig } from '../utils/repository-config';
+import { parseGitAttributes } from '../utils/gitattributes';
+import { GitHubService } from './github';
+
+/**
+ * Reads a repository's `.codecritics.yml` and `.gitattributes`
+ *
+ * The files are always taken from the base branch, so a pull request cannot
+ * change how it is reviewed itself.
+ */
+export class RepositoryConfigLoader {
+  private logger: Logger;
+
+  /**
+   * Creates a new repository config loader
+   *
+   * @param githubService - GitHub service used to read the file
+   * @param logger - Optional logger instance for dependency injection
+   */
+  constructor(
+    private readonly githubService: GitHubService,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Load the settings from a branch
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param ref - Branch to read the file from
+   * @returns Settings from the file, or the defaults if there is none
+   */
+  async load(owner: string, repo: string, ref: string): Promise<LoadedRepositoryConfig> {
+    const [content, attributes] = await Promise.all([
+      this.githubService.getFileContent(owner, repo, REPOSITORY_CONFIG.PATH, ref),
+      this.githubService.getFileContent(owner, repo, REPOSITORY_CONFIG.GITATTRIBUTES_PATH, ref)
+    ]);
+    const gitAttributes = attributes === null ? [] : parseGitAttributes(attributes);
+    if (content === null) {
+      return { config: getDefaultRepositoryConfig(), errors: [], gitAttributes };
+    }
+
+    const loaded: LoadedRepositoryConfig = { ...parseRepositoryConfig(content), gitAttributes };
+    if (loaded.errors.length > 0) {
+      this.logger.warn('Invalid repository configuration', { repository: `${owner}/${repo}`, ref, errors: loaded.errors });
+    } else {
+      this.logger.debug('Loaded repository configuration', { repository: `${owner}/${repo}`, ref });
+    }
+    return loaded;
+  }
+
+  /**
+   * Load the settings that apply to a pull request, from its base branch
+   *
+   * @param owner - Repository owner
+   * @param repo - Repository name
+   * @param pullNumber - Pull request number
+   * @returns Settings from the file, or the defaults if there is none
+   */
+  async loadForPullRequest(owner: string, repo: string, pullNumber: number): Promise<LoadedRepositoryConfig> {
+    const baseRef = await this.githubService.getPullRequestBaseRef(owner, repo, pullNumber);
+    return this.load(owner, repo, baseRef);
+  }
+}
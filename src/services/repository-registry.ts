@@ -0,0 +1,135 @@
+import { EnabledRepository } from '../types';
+import { Logger } from '../utils/logger';
+import { StateStore } from '../utils/state-store';
+import config from '../utils/config';
+
+/**
+ * Looks up the installation of the app on a repository
+ */
+export type InstallationLookup = (owner: string, repo: string) => Promise<number | undefined>;
+
+/**
+ * Persisted set of repositories the GitHub App is installed on
+ *
+ * Kept up to date from `installation` and `installation_repositories` webhook
+ * events. When authenticating as a GitHub App only enabled repositories are
+ * reviewed; the ALLOWED_REPOSITORIES env allowlist (GitHubService.isRepositoryAllowed)
+ * applies on top of that.
+ *
+ * Installations made before the first deploy, or forgotten by an ephemeral
+ * store after a restart, have no record. A repository without one is enabled
+ * when a signed webhook names its installation, or when GitHub confirms the
+ * app is installed on it, and is recorded from then on.
+ */
+export class RepositoryRegistry {
+  private logger: Logger;
+
+  /**
+   * Creates a new repository registry
+   *
+   * @param store - Store used to persist enabled repositories
+   * @param logger - Optional logger instance for dependency injection
+   * @param enforce - Require repositories to be enabled (defaults to GitHub App mode)
+   * @param lookupInstallation - Optional lookup of repositories without a record
+   */
+  constructor(
+    private readonly store: StateStore<EnabledRepository>,
+    logger?: Logger,
+    private readonly enforce: boolean = config.GITHUB_AUTH_MODE === 'app',
+    private readonly lookupInstallation?: InstallationLookup
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Enable repositories for an installation
+   *
+   * @param installationId - Installation the repositories belong to
+   * @param fullNames - Full repository names (owner/repo)
+   */
+  async enable(installationId: number, fullNames: string[]): Promise<void> {
+    const enabledAt = new Date().toISOString();
+    for (const fullName of fullNames) {
+      await this.store.set(this.key(fullName), { fullName, installationId, enabledAt });
+    }
+    this.logger.info('Enabled repositories', { installationId, repositories: fullNames });
+  }
+
+  /**
+   * Disable repositories
+   *
+   * @param fullNames - Full repository names (owner/repo)
+   */
+  async disable(fullNames: string[]): Promise<void> {
+    for (const fullName of fullNames) {
+      await this.store.delete(this.key(fullName));
+    }
+    this.logger.info('Disabled repositories', { repositories: fullNames });
+  }
+
+  /**
+   * Disable every repository of an installation
+   *
+   * @param installationId - Installation that was deleted or suspended
+   * @returns Full names of the disabled repositories
+   */
+  async removeInstallation(installationId: number): Promise<string[]> {
+    const removed = (await this.list())
+      .filter(repository => repository.installationId === installationId)
+      .map(repository => repository.fullName);
+
+    await this.disable(removed);
+    return removed;
+  }
+
+  /**
+   * List enabled repositories
+   *
+   * @returns Enabled repositories sorted by name
+   */
+  async list(): Promise<EnabledRepository[]> {
+    return (await this.store.entries())
+      .map(([, repository]) => repository)
+      .sort((a, b) => a.fullName.localeCompare(b.fullName));
+  }
+
+  /**
+   * Get an enabled repository
+   *
+   * @param fullName - Full repository name (owner/repo)
+   * @returns The repository record, or undefined if the app is not installed on it
+   */
+  async get(fullName: string): Promise<EnabledRepository | undefined> {
+    return this.store.get(this.key(fullName));
+  }
+
+  /**
+   * Check whether a repository is enabled
+   *
+   * @param fullName - Full repository name (owner/repo)
+   * @param installationId - Installation named by a verified webhook for the repository
+   * @returns True if the app is installed on the repository, or if the registry is not enforced
+   */
+  async isEnabled(fullName: string, installationId?: number): Promise<boolean> {
+    if (!this.enforce || await this.get(fullName)) {
+      return true;
+    }
+
+    const [owner, repo] = fullName.split('/');
+    const installation = installationId ?? await this.lookupInstallation?.(owner, repo).catch(error => {
+      this.logger.warn('Could not look up repository installation', { repository: fullName, error: (error as Error).message });
+      return undefined;
+    });
+    if (installation === undefined) {
+      return false;
+    }
+
+    await this.enable(installation, [fullName]);
+    return true;
+  }
+
+  // GitHub repository names are case-insensitive
+  private key(fullName: string): string {
+    return fullName.toLowerCase();
+  }
+}
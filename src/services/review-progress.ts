@@ -0,0 +1,137 @@
+import { ReviewResult } from '../types';
+import { Logger } from '../utils/logger';
+import { GitHubService } from './github';
+
+export interface ReviewProgressTarget {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  /** PR comment that requested the review */
+  triggerCommentId: number;
+  /** 👀 reaction added when the request was received */
+  triggerReactionId?: number;
+}
+
+/**
+ * Feedback on a review requested from a PR comment
+ *
+ * Swaps the 👀 reaction on the trigger comment for 🚀 or 😕 when the review
+ * finishes and, when enabled, keeps a single comment updated with the current
+ * stage. Feedback is best effort: GitHub errors are logged, never thrown.
+ */
+export class ReviewProgress {
+  private logger: Logger;
+  private progressCommentId?: number;
+  private stages: string[] = [];
+
+  /**
+   * Creates a new progress reporter
+   *
+   * @param githubService - GitHub service used for reactions and the progress comment
+   * @param target - Pull request and comment the review was requested from
+   * @param showProgressComment - Keep a "review in progress" comment updated
+   * @param logger - Optional logger instance for dependency injection
+   */
+  constructor(
+    private readonly githubService: GitHubService,
+    private readonly target: ReviewProgressTarget,
+    private readonly showProgressComment: boolean,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger();
+  }
+
+  /**
+   * Record that the review entered a new stage
+   *
+   * @param stage - Short description, e.g. "Fetching pull request diff"
+   */
+  async update(stage: string): Promise<void> {
+    if (this.stages[this.stages.length - 1] === stage) {
+      return;
+    }
+    this.stages.push(stage);
+    await this.renderProgress(`⏳ **Review in progress**\n\n${this.renderStages()}`);
+  }
+
+  /**
+   * Report a finished review
+   *
+   * @param result - Result of the review
+   */
+  async succeeded(result: ReviewResult): Promise<void> {
+    const summary = result.status === 'skipped'
+      ? `⏭️ **Review skipped**${result.skipReason ? ` (${result.skipReason.replace(/_/g, ' ')})` : ''}`
+      : `✅ **Review finished** with ${result.comments.length} comment${result.comments.length === 1 ? '' : 's'}`;
+
+    await this.finish('rocket', `${summary}\n\n${this.renderStages(true)}`);
+  }
+
+  /**
+   * Report a review that failed on its last attempt
+   */
+  async failed(): Promise<void> {
+    await this.finish('confused', `❌ **Review failed**\n\n${this.renderStages()}`);
+  }
+
+  /**
+   * Report a review that was superseded or cancelled
+   */
+  async cancelled(): Promise<void> {
+    await this.finish(undefined, '🚫 **Review cancelled**: a newer review of this pull request replaced it.');
+  }
+
+  private async finish(reaction: 'rocket' | 'confused' | undefined, message: string): Promise<void> {
+    const { owner, repo, triggerCommentId, triggerReactionId } = this.target;
+
+    if (triggerReactionId) {
+      await this.bestEffort('remove reaction', async () => {
+        await this.githubService.removeCommentReaction(owner, repo, triggerCommentId, triggerReactionId);
+      });
+    }
+    if (reaction) {
+      await this.bestEffort('add reaction', async () => {
+        await this.githubService.addCommentReaction(owner, repo, triggerCommentId, reaction);
+      });
+    }
+
+    // Only an existing progress comment gets a final state; none is created just for it
+    if (this.progressCommentId) {
+      await this.renderProgress(message);
+    }
+  }
+
+  private async renderProgress(message: string): Promise<void> {
+    if (!this.showProgressComment) {
+      return;
+    }
+
+    const { owner, repo, pullNumber } = this.target;
+    const body = `## 🤖 Code Critics AI Review\n\n${message}\n\n---\n*Powered by Code Critics AI*\n<!-- code-critics-progress -->`;
+
+    await this.bestEffort('update progress comment', async () => {
+      if (this.progressCommentId) {
+        await this.githubService.updatePRComment(owner, repo, this.progressCommentId, body);
+      } else {
+        this.progressCommentId = await this.githubService.createPRComment(owner, repo, pullNumber, body);
+      }
+    });
+  }
+
+  private renderStages(allDone: boolean = false): string {
+    return this.stages
+      .map((stage, index) => `- ${allDone || index < this.stages.length - 1 ? '✔️' : '▶️'} ${stage}`)
+      .join('\n');
+  }
+
+  private async bestEffort(action: string, operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      this.logger.warn(`Could not ${action}`, {
+        pullNumber: this.target.pullNumber,
+        error: (error as Error).message
+      });
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { ReviewPreview, ReviewStatus, ReviewSubmission } from '../types';
+
+/**
+ * GitHub writes made by a review
+ *
+ * GitHubService implements this to post for real; DryRunPublisher captures
+ * the calls into a preview instead.
+ */
+export interface ReviewPublisher {
+  createReview(owner: string, repo: string, pullNumber: number, review: ReviewSubmission): Promise<void>;
+  postPRComment(owner: string, repo: string, pullNumber: number, body: string): Promise<void>;
+  setCommitStatus(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    status: ReviewStatus,
+    description: string,
+    context?: string
+  ): Promise<void>;
+  setCommitStatusForSha(
+    owner: string,
+    repo: string,
+    sha: string,
+    status: ReviewStatus,
+    description: string,
+    context?: string
+  ): Promise<void>;
+}
+
+/**
+ * Publisher that records what a review would post without touching GitHub
+ */
+export class DryRunPublisher implements ReviewPublisher {
+  readonly preview: ReviewPreview = { comments: [], statuses: [] };
+
+  async createReview(_owner: string, _repo: string, _pullNumber: number, review: ReviewSubmission): Promise<void> {
+    this.preview.review = review;
+  }
+
+  async postPRComment(_owner: string, _repo: string, _pullNumber: number, body: string): Promise<void> {
+    this.preview.comments.push(body);
+  }
+
+  async setCommitStatus(
+    _owner: string,
+    _repo: string,
+    _pullNumber: number,
+    status: ReviewStatus,
+    description: string
+  ): Promise<void> {
+    this.preview.statuses.push({ status, description });
+  }
+
+  async setCommitStatusForSha(
+    _owner: string,
+    _repo: string,
+    sha: string,
+    status: ReviewStatus,
+    description: string
+  ): Promise<void> {
+    this.preview.statuses.push({ status, description, sha });
+  }
+}
+
+/**
+ * Render a dry-run preview as markdown
+ *
+ * @param preview - Captured preview
+ * @returns Markdown suitable for a PR comment or an API response
+ */
+export function renderPreviewMarkdown(preview: ReviewPreview): string {
+  const sections: string[] = [
+    '## 🤖 Code Critics AI Review (dry run)',
+    '_Nothing below was posted to the pull request; this is what the review would contain._'
+  ];
+
+  if (preview.review) {
+    sections.push(`### Review\n\n${preview.review.body}`);
+    for (const comment of preview.review.comments) {
+      sections.push(`#### \`${comment.path}\` line ${comment.line}\n\n${comment.body}`);
+    }
+  }
+
+  for (const comment of preview.comments) {
+    sections.push(`### Comment\n\n${comment}`);
+  }
+
+  const finalStatus = preview.statuses[preview.statuses.length - 1];
+  if (finalStatus) {
+    sections.push(`**Commit status:** ${finalStatus.status} — ${finalStatus.description}`);
+  }
+
+  if (!preview.review && preview.comments.length === 0) {
+    sections.push('_The review produced no output._');
+  }
+
+  return `${sections.join('\n\n')}\n\n---\n*Powered by Code Critics AI*\n<!-- code-critics-dry-run -->`;
+}
@@ -0,0 +1,453 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { ReviewJob, ReviewJobStatus, ReviewRequest, ReviewResult } from '../types';
+import { Logger } from '../utils/logger';
+import { StateStore } from '../utils/state-store';
+import config from '../utils/config';
+import { REVIEW_QUEUE } from '../utils/constants';
+import { ReviewCancelledError } from '../utils/errors';
+
+/**
+ * Function executed for every review job (the job body)
+ *
+ * The signal aborts when a newer push to the same pull request supersedes the job.
+ */
+export type ReviewJobHandler = (job: ReviewJob, signal: AbortSignal) => Promise<ReviewResult | void>;
+
+export interface EnqueueOptions {
+  /** Delay before the job may run; rapid pushes collapse into the last one */
+  delayMs?: number;
+  /** Cancel queued and in-flight reviews of the same pull request for another head SHA */
+  supersede?: boolean;
+}
+
+export interface ReviewQueueOptions {
+  /** Number of reviews processed in parallel */
+  concurrency: number;
+  /** Attempts before a job is moved to the dead-letter list */
+  maxAttempts: number;
+  /** Base delay for exponential backoff between attempts */
+  backoffMs: number;
+}
+
+/**
+ * Durable review job queue
+ *
+ * Besides reviews it runs follow-up answers in review threads (`kind:
+ * 'follow_up'`), so they share the same durability, retries and concurrency
+ * limit. Jobs are persisted in a StateStore before the webhook is acknowledged, so a
+ * restart or crash never loses a review. Failed jobs are retried with
+ * exponential backoff and end up in the dead-letter list once they run out of
+ * attempts.
+ *
+ * Emits `completed`, `cancelled` (job), and `retry`, `dead` (job, error).
+ */
+export class ReviewQueue extends EventEmitter {
+  private logger: Logger;
+  private options: ReviewQueueOptions;
+  private running = new Map<string, AbortController>();
+  private ready: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private drainRequested = false;
+  private stopped = false;
+
+  /**
+   * Creates a new review queue
+   *
+   * @param store - Store used to persist jobs
+   * @param handler - Job body, typically CodeReviewService.conductReview
+   * @param logger - Optional logger instance for dependency injection
+   * @param options - Optional overrides for concurrency and retry settings
+   */
+  constructor(
+    private readonly store: StateStore<ReviewJob>,
+    private readonly handler: ReviewJobHandler,
+    logger?: Logger,
+    options?: Partial<ReviewQueueOptions>
+  ) {
+    super();
+    this.logger = logger || new Logger();
+    this.options = {
+      concurrency: config.REVIEW_QUEUE_CONCURRENCY,
+      maxAttempts: config.REVIEW_QUEUE_MAX_ATTEMPTS,
+      backoffMs: config.REVIEW_QUEUE_BACKOFF_MS,
+      ...options
+    };
+  }
+
+  /**
+   * Recover persisted jobs and start processing
+   *
+   * Safe to call multiple times; recovery only happens once.
+   */
+  start(): Promise<void> {
+    if (!this.ready) {
+      this.stopped = false;
+      this.ready = this.recover().then(() => this.schedule());
+    }
+    return this.ready;
+  }
+
+  /**
+   * Stop scheduling new jobs. Jobs already running are left to finish.
+   */
+  stop(): void {
+    this.stopped = true;
+    this.ready = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Persist a review request as a new pending job
+   *
+   * @param request - Review request to enqueue
+   * @param options - Optional debounce delay and supersede behaviour
+   * @returns The persisted job
+   */
+  async enqueue(request: ReviewRequest, options: EnqueueOptions = {}): Promise<ReviewJob> {
+    await this.start();
+
+    const now = new Date();
+    const job: ReviewJob = {
+      id: randomUUID(),
+      request,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: this.options.maxAttempts,
+      runAfter: now.getTime() + (options.delayMs ?? 0),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+
+    if (options.supersede) {
+      await this.supersede(job);
+    }
+
+    await this.store.set(job.id, job);
+    this.logger.info('Review job enqueued', {
+      jobId: job.id,
+      repository: `${request.owner}/${request.repo}`,
+      pullNumber: request.pullNumber,
+      headSha: request.headSha,
+      delayMs: options.delayMs ?? 0
+    });
+
+    this.schedule();
+    return job;
+  }
+
+  /**
+   * Cancel jobs for the same pull request that review a different head
+   *
+   * Pending jobs are cancelled right away; running jobs are aborted and marked
+   * cancelled once their handler returns. Dry runs post nothing, so they are
+   * left to finish, and follow-up answers do not depend on the head.
+   */
+  private async supersede(newJob: ReviewJob): Promise<void> {
+    const { owner, repo, pullNumber, headSha } = newJob.request;
+
+    for (const job of await this.listJobs()) {
+      const samePullRequest = job.request.owner === owner &&
+        job.request.repo === repo &&
+        job.request.pullNumber === pullNumber;
+      if (!samePullRequest || job.request.dryRun || job.request.kind === 'follow_up' ||
+        (headSha && job.request.headSha === headSha)) {
+        continue;
+      }
+
+      if (job.status === 'pending' && !this.running.has(job.id)) {
+        const cancelled: ReviewJob = {
+          ...job,
+          status: 'cancelled',
+          supersededBy: newJob.id,
+          completedAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        };
+        await this.store.set(job.id, cancelled);
+        this.logger.info('Superseded queued review', { jobId: job.id, supersededBy: newJob.id });
+        this.emit('cancelled', cancelled);
+      } else if (job.status === 'running') {
+        await this.store.set(job.id, { ...job, supersededBy: newJob.id });
+        this.running.get(job.id)?.abort(new ReviewCancelledError(`Superseded by review job ${newJob.id}`));
+        this.logger.info('Aborting superseded review', { jobId: job.id, supersededBy: newJob.id });
+      }
+    }
+  }
+
+  /**
+   * Get a job by ID
+   *
+   * @param id - Job ID
+   * @returns The job, or undefined if it does not exist (or was pruned)
+   */
+  async getJob(id: string): Promise<ReviewJob | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * List jobs that exhausted their attempts
+   *
+   * @returns Dead-lettered jobs, oldest first
+   */
+  async listDeadLetters(): Promise<ReviewJob[]> {
+    return (await this.listJobs())
+      .filter(job => job.status === 'dead')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Move a dead-lettered job back to the queue with a fresh set of attempts
+   *
+   * @param id - Job ID
+   * @returns The requeued job
+   * @throws Error if the job does not exist or is not dead-lettered
+   */
+  async requeueDeadLetter(id: string): Promise<ReviewJob> {
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'dead') {
+      throw new Error(`Review job ${id} is not in the dead-letter list`);
+    }
+
+    const requeued: ReviewJob = {
+      ...job,
+      status: 'pending',
+      attempts: 0,
+      runAfter: Date.now(),
+      updatedAt: new Date().toISOString()
+    };
+    await this.store.set(id, requeued);
+    this.schedule();
+    return requeued;
+  }
+
+  /**
+   * Count jobs per status
+   *
+   * @returns Number of jobs in each status
+   */
+  async getStats(): Promise<Record<ReviewJobStatus, number>> {
+    const stats: Record<ReviewJobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0, cancelled: 0 };
+    for (const job of await this.listJobs()) {
+      stats[job.status]++;
+    }
+    return stats;
+  }
+
+  private async listJobs(): Promise<ReviewJob[]> {
+    return (await this.store.entries()).map(([, job]) => job);
+  }
+
+  /**
+   * Reset jobs that were running when the process died and prune old results
+   */
+  private async recover(): Promise<void> {
+    const now = Date.now();
+    let recovered = 0;
+
+    for (const job of await this.listJobs()) {
+      if (job.status === 'running') {
+        await this.store.set(job.id, {
+          ...job,
+          status: 'pending',
+          runAfter: now,
+          updatedAt: new Date(now).toISOString()
+        });
+        recovered++;
+      }
+    }
+
+    await this.pruneCompleted(now);
+
+    if (recovered > 0) {
+      this.logger.warn('Recovered interrupted review jobs', { recovered });
+    }
+  }
+
+  private async pruneCompleted(now: number): Promise<void> {
+    for (const job of await this.listJobs()) {
+      if (
+        (job.status === 'completed' || job.status === 'cancelled') &&
+        job.completedAt &&
+        now - Date.parse(job.completedAt) > REVIEW_QUEUE.COMPLETED_RETENTION_MS
+      ) {
+        await this.store.delete(job.id);
+      }
+    }
+  }
+
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.drain().catch(error => {
+      this.logger.error('Review queue processing failed', error as Error);
+    });
+  }
+
+  /**
+   * Start as many due jobs as concurrency allows and arm a timer for the next one
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+        const now = Date.now();
+        const pending = (await this.listJobs())
+          .filter(job => job.status === 'pending' && !this.running.has(job.id))
+          .sort((a, b) => a.runAfter - b.runAfter);
+
+        let next = 0;
+        while (
+          next < pending.length &&
+          pending[next].runAfter <= now &&
+          this.running.size < this.options.concurrency &&
+          !this.stopped
+        ) {
+          await this.startJob(pending[next]);
+          next++;
+        }
+
+        this.armTimer(pending[next]);
+      } while (this.drainRequested && !this.stopped);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private armTimer(nextJob: ReviewJob | undefined): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // When all workers are busy, finishing jobs reschedules the queue
+    if (!nextJob || this.stopped || this.running.size >= this.options.concurrency) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(nextJob.runAfter - Date.now(), 0), REVIEW_QUEUE.MAX_BACKOFF_MS);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.schedule();
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private async startJob(job: ReviewJob): Promise<void> {
+    const now = new Date().toISOString();
+    const started: ReviewJob = {
+      ...job,
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: now,
+      updatedAt: now
+    };
+
+    this.running.set(job.id, new AbortController());
+    try {
+      await this.store.set(job.id, started);
+    } catch (error) {
+      this.running.delete(job.id);
+      throw error;
+    }
+
+    this.execute(started).catch(error => {
+      this.logger.error('Failed to record review job result', error as Error, { jobId: job.id });
+    });
+  }
+
+  private async execute(job: ReviewJob): Promise<void> {
+    const controller = this.running.get(job.id)!;
+
+    try {
+      const result = await this.handler(job, controller.signal);
+      const now = new Date().toISOString();
+      const completed: ReviewJob = {
+        ...(await this.store.get(job.id) ?? job),
+        status: 'completed',
+        completedAt: now,
+        updatedAt: now,
+        lastError: undefined,
+        result: result || undefined
+      };
+      await this.store.set(job.id, completed);
+      this.logger.info('Review job completed', { jobId: job.id, attempts: job.attempts });
+      this.emit('completed', completed);
+    } catch (error) {
+      if (controller.signal.aborted || error instanceof ReviewCancelledError) {
+        await this.recordCancellation(job, error as Error);
+      } else {
+        await this.recordFailure(job, error as Error);
+      }
+    } finally {
+      this.running.delete(job.id);
+      await this.pruneCompleted(Date.now());
+      this.schedule();
+    }
+  }
+
+  private async recordCancellation(job: ReviewJob, error: Error): Promise<void> {
+    const now = new Date().toISOString();
+    const cancelled: ReviewJob = {
+      ...(await this.store.get(job.id) ?? job),
+      status: 'cancelled',
+      lastError: error.message,
+      completedAt: now,
+      updatedAt: now
+    };
+    await this.store.set(job.id, cancelled);
+    this.logger.info('Review job cancelled', { jobId: job.id, reason: error.message });
+    this.emit('cancelled', cancelled);
+  }
+
+  private async recordFailure(job: ReviewJob, error: Error): Promise<void> {
+    const now = new Date();
+    // Fields written while the job ran, such as supersededBy, only exist on the stored record
+    const stored = await this.store.get(job.id) ?? job;
+
+    if (job.attempts >= job.maxAttempts) {
+      const dead: ReviewJob = {
+        ...stored,
+        status: 'dead',
+        lastError: error.message,
+        completedAt: now.toISOString(),
+        updatedAt: now.toISOString()
+      };
+      await this.store.set(job.id, dead);
+      this.logger.error('Review job moved to dead-letter list', error, {
+        jobId: job.id,
+        attempts: job.attempts
+      });
+      this.emit('dead', dead, error);
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.backoffMs * Math.pow(2, job.attempts - 1),
+      REVIEW_QUEUE.MAX_BACKOFF_MS
+    );
+    const retry: ReviewJob = {
+      ...stored,
+      status: 'pending',
+      lastError: error.message,
+      runAfter: now.getTime() + delay,
+      updatedAt: now.toISOString()
+    };
+    await this.store.set(job.id, retry);
+    this.logger.warn(`Review job attempt ${job.attempts} failed. Retrying in ${delay}ms...`, {
+      jobId: job.id,
+      error: error.message
+    });
+    this.emit('retry', retry, error);
+  }
+}
@@ -1,24 +1,135 @@
 import { EmitterWebhookEvent } from '@octokit/webhooks';
-import { GitHubService } from './github';
 import { Logger } from '../utils/logger';
 import { 
   extractRepositoryInfo, 
   shouldProcessEvent, 
   repositoryRateLimit 
 } from '../utils/webhook-security';
-import { WebhookPayload } from '../types';
+import {
+  CommentCommand,
+  LoadedRepositoryConfig,
+  PullRequestSettings,
+  ReviewRequest,
+  WebhookHandlerResult
+} from '../types';
+import { container } from '../core/container';
+import { WebhookEventRouter } from './event-router';
+import { EnqueueOptions } from './review-queue';
+import config from '../utils/config';
+import { GitHubService } from './github';
+import { COMMAND_USAGE, mentionsBot, parseCommentCommand } from '../utils/comment-commands';
+import { COLLABORATOR_PERMISSIONS, COMMENT_COMMANDS, REPOSITORY_CONFIG } from '../utils/constants';
 
-const githubService = new GitHubService();
 const logger = new Logger();
 
+const RESTRICTED_COMMANDS: ReadonlyArray<CommentCommand['name']> = ['review', 'pause', 'resume', 'ignore'];
+
+// Author associations of users without any repository role
+const NON_COLLABORATOR_ASSOCIATIONS = ['NONE', 'FIRST_TIMER', 'FIRST_TIME_CONTRIBUTOR', 'CONTRIBUTOR', 'MANNEQUIN'];
+
+/**
+ * Register the typed event handlers on a router
+ *
+ * @param router - Router that dispatches verified webhook deliveries
+ */
+export function registerWebhookHandlers(router: WebhookEventRouter): void {
+  router.on('ping', handlePingEvent);
+  router.on(
+    ['pull_request.opened', 'pull_request.synchronize', 'pull_request.reopened'],
+    handlePullRequestEvent
+  );
+  router.on('issue_comment.created', handleIssueCommentEvent);
+  router.on('pull_request_review_comment.created', handleReviewCommentEvent);
+  router.on('installation', handleInstallationEvent);
+  router.on('installation_repositories', handleInstallationRepositoriesEvent);
+}
+
+/**
+ * Handle ping events sent when a webhook is created
+ */
+export async function handlePingEvent(event: EmitterWebhookEvent<'ping'>): Promise<WebhookHandlerResult> {
+  const { payload } = event;
+
+  logger.info('Received ping event', {
+    zen: payload.zen,
+    hook_id: payload.hook_id,
+    repository: payload.repository?.full_name
+  });
+
+  return { outcome: 'completed', message: 'Pong!' };
+}
+
+/**
+ * Handle installation events: enable or disable all repositories of an installation
+ */
+export async function handleInstallationEvent(
+  event: EmitterWebhookEvent<'installation'>
+): Promise<WebhookHandlerResult> {
+  const { payload } = event;
+  const installationId = payload.installation.id;
+  const registry = container.getRepositoryRegistry();
+
+  logger.info('Received installation event', {
+    action: payload.action,
+    installationId,
+    sender: payload.sender.login
+  });
+
+  switch (payload.action) {
+    case 'created':
+    case 'unsuspend': {
+      const repositories = (payload.repositories || []).map(repository => repository.full_name);
+      await registry.enable(installationId, repositories);
+      return { outcome: 'completed', message: `Enabled ${repositories.length} repositories` };
+    }
+    case 'deleted':
+    case 'suspend': {
+      const removed = await registry.removeInstallation(installationId);
+      return { outcome: 'completed', message: `Disabled ${removed.length} repositories` };
+    }
+    default:
+      return { outcome: 'ignored', message: `Installation action '${payload.action}' not handled` };
+  }
+}
+
+/**
+ * Handle installation_repositories events: repositories added to or removed from an installation
+ */
+export async function handleInstallationRepositoriesEvent(
+  event: EmitterWebhookEvent<'installation_repositories'>
+): Promise<WebhookHandlerResult> {
+  const { payload } = event;
+  const registry = container.getRepositoryRegistry();
+  const added = payload.repositories_added.map(repository => repository.full_name);
+  const removed = payload.repositories_removed
+    .map(repository => repository.full_name)
+    .filter((fullName): fullName is string => !!fullName);
+
+  logger.info('Received installation repositories event', {
+    action: payload.action,
+    installationId: payload.installation.id,
+    added,
+    removed
+  });
+
+  await registry.enable(payload.installation.id, added);
+  await registry.disable(removed);
+
+  return {
+    outcome: 'completed',
+    message: `Enabled ${added.length} and disabled ${removed.length} repositories`
+  };
+}
+
 /**
  * Handle pull request events (opened, synchronize, reopened)
  */
 export async function handlePullRequestEvent(
   event: EmitterWebhookEvent<'pull_request.opened' | 'pull_request.synchronize' | 'pull_request.reopened'>
-): Promise<void> {
+): Promise<WebhookHandlerResult> {
   const { payload } = event;
   const { repository, pull_request } = payload;
+  const githubService = container.getGitHubService(payload.installation?.id);
   
   logger.setContext({
     repository: repository.full_name,
@@ -37,16 +148,31 @@ export async function handlePullRequestEvent(
     const { shouldProcess, reason } = shouldProcessEvent(payload);
     if (!shouldProcess) {
       logger.info('Skipping event processing', { reason });
-      return;
+      return { outcome: 'ignored', message: reason || 'Event not processed' };
     }
 
     // Extract repository info
     const { owner, repo, fullName } = extractRepositoryInfo(payload);
 
     // Check repository allowlist
-    if (!githubService.isRepositoryAllowed(fullName)) {
+    if (!(await isRepositoryEnabled(githubService, fullName, payload.installation?.id))) {
       logger.warn('Repository not in allowlist', { repository: fullName });
-      return;
+      return { outcome: 'ignored', message: 'Repository not in allowlist' };
+    }
+
+    // `@codecritics pause` stops automatic reviews until `resume`
+    const settings = await container.getPullRequestSettings().get(owner, repo, pull_request.number);
+    if (settings.paused) {
+      logger.info('Skipping review - automatic reviews are paused', { pausedBy: settings.updatedBy });
+      return { outcome: 'ignored', message: 'Automatic reviews are paused for this pull request' };
+    }
+
+    // Repositories can opt out of automatic reviews and only review on `@codecritics review`
+    const repositoryConfig = await container.getRepositoryConfigLoader(payload.installation?.id)
+      .load(owner, repo, pull_request.base.ref);
+    if (!repositoryConfig.config.autoReview) {
+      logger.info('Skipping review - automatic reviews are disabled by the repository configuration');
+      return { outcome: 'ignored', message: `Automatic reviews are disabled by ${REPOSITORY_CONFIG.PATH}` };
     }
 
     // Check rate limiting
@@ -57,32 +183,41 @@ export async function handlePullRequestEvent(
       });
       
       // Post rate limit warning comment
-      await postRateLimitWarning(owner, repo, pull_request.number);
-      return;
+      await postRateLimitWarning(githubService, owner, repo, pull_request.number);
+      return { outcome: 'ignored', message: 'Repository rate limit exceeded' };
     }
 
     // Check if we should skip this review (avoid duplicates)
-    if (await shouldSkipReview(owner, repo, pull_request.number, false)) {
-      logger.info('Skipping review - recent review already exists');
-      return;
+    if (shouldSkipReview(payload.action, pull_request.head.sha, settings)) {
+      logger.info('Skipping review - this head was already reviewed', { headSha: pull_request.head.sha });
+      return { outcome: 'ignored', message: 'This head commit was already reviewed' };
     }
 
-    // Process the review (placeholder for now - will be implemented in Phase 3)
-    await processReview({
+    const jobId = await processReview({
       owner,
       repo,
       pullNumber: pull_request.number,
       diffUrl: pull_request.diff_url,
-      isManualTrigger: false
+      isManualTrigger: false,
+      deliveryId: event.id,
+      headSha: pull_request.head.sha,
+      installationId: payload.installation?.id
+    }, {
+      // A new push makes reviews of the previous head obsolete; wait briefly
+      // so a burst of pushes results in a single review
+      supersede: true,
+      delayMs: payload.action === 'synchronize' ? config.REVIEW_DEBOUNCE_MS : 0
     });
 
     logger.info('Pull request event processed successfully');
+    return { outcome: 'queued', message: 'Pull request event received, review queued', jobId };
 
   } catch (error) {
     logger.error('Failed to process pull request event', error as Error);
     
     // Post error comment to PR
     await postErrorComment(
+      githubService,
       repository.owner.login,
       repository.name,
       pull_request.number,
@@ -94,17 +229,18 @@ export async function handlePullRequestEvent(
 }
 
 /**
- * Handle issue comment events (manual trigger via @codecritics)
+ * Handle issue comment events (`@codecritics` commands)
  */
 export async function handleIssueCommentEvent(
   event: EmitterWebhookEvent<'issue_comment.created'>
-): Promise<void> {
+): Promise<WebhookHandlerResult> {
   const { payload } = event;
   const { repository, issue, comment } = payload;
+  const githubService = container.getGitHubService(payload.installation?.id);
 
   // Only process comments on PRs
   if (!issue.pull_request) {
-    return;
+    return { outcome: 'ignored', message: 'Comment is not on a pull request' };
   }
 
   logger.setContext({
@@ -113,7 +249,7 @@ export async function handleIssueCommentEvent(
     requestId: `comment-${comment.id}-${Date.now()}`
   });
 
-  logger.info('Processing manual review request', {
+  logger.info('Processing comment command', {
     commenter: comment.user?.login || 'unknown',
     commentPreview: comment.body.substring(0, 100)
   });
@@ -123,16 +259,73 @@ export async function handleIssueCommentEvent(
     const { shouldProcess, reason } = shouldProcessEvent(payload);
     if (!shouldProcess) {
       logger.info('Skipping comment processing', { reason });
-      return;
+      return { outcome: 'ignored', message: reason || 'Comment not processed' };
     }
 
     // Extract repository info
     const { owner, repo, fullName } = extractRepositoryInfo(payload);
 
     // Check repository allowlist
-    if (!githubService.isRepositoryAllowed(fullName)) {
+    if (!(await isRepositoryEnabled(githubService, fullName, payload.installation?.id))) {
       logger.warn('Repository not in allowlist', { repository: fullName });
-      return;
+      return { outcome: 'ignored', message: 'Repository not in allowlist' };
+    }
+
+    // Bots, including our own replies that quote commands, never trigger anything
+    if (isBotComment(comment) || comment.body.includes('<!-- code-critics-')) {
+      return { outcome: 'ignored', message: 'Comment was posted by a bot' };
+    }
+
+    const command = parseCommentCommand(comment.body);
+    if (!command) {
+      return { outcome: 'ignored', message: 'Comment does not contain a command' };
+    }
+
+    const author = comment.user?.login;
+    const settingsService = container.getPullRequestSettings();
+
+    // Commands that call the AI or change how the pull request is reviewed need write access
+    if (RESTRICTED_COMMANDS.includes(command.name) &&
+      !(await hasRequiredPermission(githubService, owner, repo, author, comment.author_association))) {
+      logger.info('Refusing command from user without permission', { commenter: author, command: command.name });
+      await postCommandReply(githubService, owner, repo, issue.number, permissionRefusal(author));
+      return { outcome: 'ignored', message: 'Commenter lacks the required permission' };
+    }
+
+    switch (command.name) {
+      case 'review':
+        break;
+      case 'pause':
+      case 'resume':
+        await settingsService.setPaused(owner, repo, issue.number, command.name === 'pause', author);
+        await postCommandReply(githubService, owner, repo, issue.number, command.name === 'pause'
+          ? `⏸️ Automatic reviews are paused for this pull request. Comment \`${COMMENT_COMMANDS.MENTION} resume\` to resume them; \`${COMMENT_COMMANDS.MENTION} review\` still works.`
+          : '▶️ Automatic reviews are resumed for this pull request.');
+        return { outcome: 'completed', message: command.name === 'pause' ? 'Reviews paused' : 'Reviews resumed' };
+      case 'ignore':
+        await settingsService.ignoreFinding(owner, repo, issue.number, command.findingId, author);
+        await postCommandReply(githubService, owner, repo, issue.number,
+          `🙈 Finding \`${command.findingId}\` will no longer be reported on this pull request.`);
+        return { outcome: 'completed', message: `Finding ${command.findingId} ignored` };
+      case 'config': {
+        const settings = await settingsService.get(owner, repo, issue.number);
+        const repositoryConfig = await container.getRepositoryConfigLoader(payload.installation?.id)
+          .loadForPullRequest(owner, repo, issue.number);
+        await postCommandReply(githubService, owner, repo, issue.number, renderEffectiveConfig(settings, repositoryConfig));
+        return { outcome: 'completed', message: 'Configuration posted' };
+      }
+      case 'help':
+        await postCommandReply(githubService, owner, repo, issue.number, `**Available commands**\n\n${COMMAND_USAGE}`);
+        return { outcome: 'completed', message: 'Help posted' };
+      case 'invalid':
+        logger.info('Invalid command', { error: command.error });
+        // Anyone can mention the bot; only users who could run commands get an answer
+        if (!(await hasRequiredPermission(githubService, owner, repo, author, comment.author_association))) {
+          return { outcome: 'ignored', message: 'Invalid command from user without permission' };
+        }
+        await postCommandReply(githubService, owner, repo, issue.number,
+          `❓ ${command.error}.\n\n**Available commands**\n\n${COMMAND_USAGE}`);
+        return { outcome: 'ignored', message: `Invalid command: ${command.error}` };
     }
 
     // Check rate limiting (more lenient for manual triggers)
@@ -142,31 +335,43 @@ export async function handleIssueCommentEvent(
         remaining: repositoryRateLimit.getRemainingRequests(`${fullName}-manual`)
       });
       
-      await postRateLimitWarning(owner, repo, issue.number);
-      return;
+      await postRateLimitWarning(githubService, owner, repo, issue.number);
+      return { outcome: 'ignored', message: 'Manual review rate limit exceeded' };
     }
 
-    // Manual triggers can override recent review checks
-    const shouldSkip = await shouldSkipReview(owner, repo, issue.number, true);
-    if (shouldSkip) {
-      logger.info('Recent review exists, but processing manual trigger anyway');
-    }
+    // Acknowledge right away; the reaction is swapped for 🚀 or 😕 when the review finishes
+    const triggerReactionId = await githubService.addCommentReaction(owner, repo, comment.id, 'eyes')
+      .catch(error => {
+        logger.warn('Could not acknowledge review request', { error: (error as Error).message });
+        return undefined;
+      });
 
-    // Process the review
-    await processReview({
+    const { paths, focus, dryRun } = command;
+    const jobId = await processReview({
       owner,
       repo,
       pullNumber: issue.number,
-      isManualTrigger: true
+      isManualTrigger: true,
+      deliveryId: event.id,
+      installationId: payload.installation?.id,
+      focus,
+      paths: paths.length > 0 ? paths : undefined,
+      // `--dry-run` posts the would-be review as a single preview comment
+      dryRun: dryRun || undefined,
+      postPreview: dryRun || undefined,
+      triggerCommentId: comment.id,
+      triggerReactionId
     });
 
-    logger.info('Manual review request processed successfully');
+    logger.info('Manual review request processed successfully', { dryRun, paths, focus });
+    return { outcome: 'queued', message: 'Manual code review requested, review queued', jobId };
 
   } catch (error) {
     logger.error('Failed to process manual review request', error as Error);
     
     // Post error comment
     await postErrorComment(
+      githubService,
       repository.owner.login,
       repository.name,
       issue.number,
@@ -178,101 +383,241 @@ export async function handleIssueCommentEvent(
 }
 
 /**
- * Check if we should skip this review to avoid duplicates
+ * Handle review comment events: answer replies that mention the bot in its own threads
+ *
+ * The AI call can take longer than GitHub waits for a webhook response, so
+ * the answer is posted in the background.
  */
-async function shouldSkipReview(
-  owner: string,
-  repo: string,
-  pullNumber: number,
-  isManualTrigger: boolean
-): Promise<boolean> {
-  try {
-    const existingComments = await githubService.findExistingBotComments(
+export async function handleReviewCommentEvent(
+  event: EmitterWebhookEvent<'pull_request_review_comment.created'>
+): Promise<WebhookHandlerResult> {
+  const { payload } = event;
+  const { repository, pull_request, comment } = payload;
+  const rootCommentId = comment.in_reply_to_id;
+
+  if (!rootCommentId) {
+    return { outcome: 'ignored', message: 'Comment is not a reply' };
+  }
+  // Bots, including our own replies, never start a new round
+  if (isBotComment(comment) || comment.body.includes('<!-- code-critics-')) {
+    return { outcome: 'ignored', message: 'Comment was posted by a bot' };
+  }
+  if (!mentionsBot(comment.body)) {
+    return { outcome: 'ignored', message: 'Reply does not mention @codecritics' };
+  }
+
+  const { owner, repo, fullName } = extractRepositoryInfo(payload);
+  const githubService = container.getGitHubService(payload.installation?.id);
+
+  if (!(await isRepositoryEnabled(githubService, fullName, payload.installation?.id))) {
+    logger.warn('Repository not in allowlist', { repository: fullName });
+    return { outcome: 'ignored', message: 'Repository not in allowlist' };
+  }
+
+  const author = comment.user?.login;
+  if (!(await hasRequiredPermission(githubService, owner, repo, author, comment.author_association))) {
+    logger.info('Refusing follow-up from user without permission', { commenter: author });
+    await githubService.replyToReviewComment(
       owner,
       repo,
-      pullNumber
+      pull_request.number,
+      rootCommentId,
+      `${permissionRefusal(author)}\n\n<!-- code-critics-command -->`
     );
+    return { outcome: 'ignored', message: 'Commenter lacks the required permission' };
+  }
 
-    if (existingComments.length === 0) {
-      return false; // No existing comments, proceed with review
-    }
+  // Follow-ups share the manual review budget since each one calls the AI
+  if (!repositoryRateLimit.isAllowed(`${fullName}-manual`)) {
+    logger.warn('Rate limit exceeded for follow-up replies', { repository: fullName });
+    return { outcome: 'ignored', message: 'Manual review rate limit exceeded' };
+  }
 
-    // For manual triggers, we're more permissive
-    if (isManualTrigger) {
-      return false; // Always allow manual triggers
-    }
+  logger.info('Processing follow-up reply', {
+    repository: repository.full_name,
+    pullNumber: pull_request.number,
+    rootCommentId,
+    commenter: comment.user?.login || 'unknown'
+  });
 
-    // Check if we have a recent review comment (within last hour)
-    const recentReview = existingComments.find(comment => {
-      if (!comment.body.includes('<!-- code-critics-review -->')) {
-        return false;
-      }
+  // Answered by the review queue, so a restart or a failing AI call does not lose the reply
+  const job = await container.getReviewQueue().enqueue({
+    kind: 'follow_up',
+    owner,
+    repo,
+    pullNumber: pull_request.number,
+    rootCommentId,
+    isManualTrigger: true,
+    deliveryId: event.id,
+    installationId: payload.installation?.id
+  });
 
-      const timestampMatch = comment.body.match(/<!-- timestamp: (\d+) -->/);
-      if (!timestampMatch) {
-        return false;
-      }
+  return { outcome: 'queued', message: 'Follow-up reply queued', jobId: job.id };
+}
 
-      const timestamp = parseInt(timestampMatch[1]);
-      const hoursSinceComment = (Date.now() - timestamp) / (1000 * 60 * 60);
-      
-      return hoursSinceComment < 1; // Consider recent if less than 1 hour old
-    });
+/**
+ * Check whether a comment was written by a bot account
+ */
+function isBotComment(comment: { user?: { login: string; type?: string; } | null; }): boolean {
+  return comment.user?.type === 'Bot' || !!comment.user?.login.endsWith('[bot]');
+}
 
-    return !!recentReview;
+/**
+ * Check the commenter's repository permission against MANUAL_TRIGGER_MIN_PERMISSION
+ *
+ * The author association settles the common cases without an API call; the
+ * collaborator permission is checked otherwise. Failures to check deny access.
+ */
+async function hasRequiredPermission(
+  githubService: GitHubService,
+  owner: string,
+  repo: string,
+  login: string | undefined,
+  authorAssociation: string
+): Promise<boolean> {
+  const required = COLLABORATOR_PERMISSIONS.indexOf(config.MANUAL_TRIGGER_MIN_PERMISSION);
+
+  if (!login) {
+    return false;
+  }
+  if (authorAssociation === 'OWNER') {
+    return true;
+  }
+  // Users who are neither collaborators nor members can at most read a public repository
+  if (NON_COLLABORATOR_ASSOCIATIONS.includes(authorAssociation) && required > COLLABORATOR_PERMISSIONS.indexOf('read')) {
+    return false;
+  }
+
+  try {
+    const permission = await githubService.getCollaboratorPermission(owner, repo, login);
+    return COLLABORATOR_PERMISSIONS.indexOf(permission) >= required;
   } catch (error) {
-    logger.error('Error checking for existing reviews', error as Error);
-    return false; // If we can't check, proceed with review
+    logger.warn('Could not verify commenter permission', { commenter: login, error: (error as Error).message });
+    return false;
   }
 }
 
 /**
- * Process the actual review (placeholder for Phase 3 implementation)
+ * Polite refusal for commenters without the required permission
  */
-async function processReview(request: {
-  owner: string;
-  repo: string;
-  pullNumber: number;
-  diffUrl?: string;
-  isManualTrigger: boolean;
-}): Promise<void> {
-  const { owner, repo, pullNumber, diffUrl, isManualTrigger } = request;
-  
+function permissionRefusal(login: string | undefined): string {
+  return `🙏 Sorry${login ? ` @${login}` : ''}, only collaborators with **${config.MANUAL_TRIGGER_MIN_PERMISSION}** access or higher can ask Code Critics to review or change review settings on this repository. A maintainer can run the command for you.`;
+}
+
+/**
+ * Check the env allowlist and the set of repositories the app is installed on
+ *
+ * The webhook's signature has been verified, so its installation ID shows the
+ * app is installed on the repository even if the registry has no record yet.
+ */
+async function isRepositoryEnabled(
+  githubService: GitHubService,
+  fullName: string,
+  installationId?: number
+): Promise<boolean> {
+  return githubService.isRepositoryAllowed(fullName) &&
+    await container.getRepositoryRegistry().isEnabled(fullName, installationId);
+}
+
+/**
+ * Check if an automatic review would repeat the review of the same head commit
+ *
+ * Reopening a pull request, or GitHub redelivering `opened`, should not review
+ * an unchanged head twice. Pushes always bring a new head; bursts of them are
+ * handled by superseding and debouncing queued reviews.
+ */
+function shouldSkipReview(action: string, headSha: string, settings: PullRequestSettings): boolean {
+  if (action === 'synchronize') {
+    return false;
+  }
+  return settings.lastReviewedSha === headSha;
+}
+
+/**
+ * Queue the review; the review queue runs CodeReviewService.conductReview
+ *
+ * @param request - Review request
+ * @param options - Optional debounce delay and supersede behaviour
+ * @returns ID of the queued review job
+ */
+async function processReview(request: ReviewRequest, options?: EnqueueOptions): Promise<string> {
   logger.info('Starting review process', {
-    isManualTrigger,
-    hasDiffUrl: !!diffUrl
+    isManualTrigger: request.isManualTrigger,
+    hasDiffUrl: !!request.diffUrl
   });
 
   try {
-    // For now, just post a placeholder comment indicating the system is working
-    const comment = `## 🤖 Code Critics Review
-
-${isManualTrigger ? '👋 Manual review requested!' : '🔄 Automatic review triggered'}
+    const job = await container.getReviewQueue().enqueue(request, options);
+    return job.id;
+  } catch (error) {
+    logger.error('Failed to process review', error as Error);
+    throw error;
+  }
+}
 
-**Status**: System is operational and webhook processing is working correctly.
+/**
+ * Reply to a `@codecritics` command
+ */
+async function postCommandReply(
+  githubService: GitHubService,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  message: string
+): Promise<void> {
+  const comment = `## 🤖 Code Critics
 
-**Next Steps**: AI-powered code analysis will be implemented in Phase 3.
+${message}
 
 ---
-*Powered by Code Critics AI • Phase 2 Implementation*
+*Powered by Code Critics AI*
 
-<!-- code-critics-review -->
-<!-- timestamp: ${Date.now()} -->`;
+<!-- code-critics-command -->`;
 
-    await githubService.postPRComment(owner, repo, pullNumber, comment);
-    
-    logger.info('Placeholder review comment posted successfully');
+  await githubService.postPRComment(owner, repo, pullNumber, comment);
+}
 
-  } catch (error) {
-    logger.error('Failed to process review', error as Error);
-    throw error;
-  }
+/**
+ * Render the settings that apply to reviews of a pull request
+ */
+function renderEffectiveConfig(settings: PullRequestSettings, repositoryConfig: LoadedRepositoryConfig): string {
+  const ignored = settings.ignoredFindings.length > 0
+    ? settings.ignoredFindings.map(id => `\`${id}\``).join(', ')
+    : 'none';
+  const { config: repoSettings, source, errors } = repositoryConfig;
+  const globs = (patterns: string[], fallback: string): string =>
+    patterns.length > 0 ? patterns.map(pattern => `\`${pattern}\``).join(', ') : fallback;
+  const configFile = !source
+    ? 'none'
+    : errors.length > 0 ? `\`${source}\` is invalid, using defaults` : `\`${source}\` from the base branch`;
+
+  return `**Effective settings**
+
+| Setting | Value |
+| --- | --- |
+| Repository configuration | ${configFile} |
+| AI provider | \`${repoSettings.provider ?? config.AI_PROVIDER}\`${repoSettings.model ? ` (\`${repoSettings.model}\`)` : ''} |
+| Automatic reviews | ${!repoSettings.autoReview ? 'disabled by configuration' : settings.paused ? 'paused' : 'enabled'} |
+| Permission needed for commands | ${config.MANUAL_TRIGGER_MIN_PERMISSION} |
+| Review delay after push | ${Math.round(config.REVIEW_DEBOUNCE_MS / 1000)}s |
+| Maximum diff size | ${config.MAX_DIFF_SIZE} characters |
+| Reviewed file types | ${config.ALLOWED_FILE_EXTENSIONS.join(', ')} |
+| Included paths | ${globs(repoSettings.include, 'all')} |
+| Excluded paths | ${globs(repoSettings.exclude, 'none')} |
+| Minimum severity | ${repoSettings.minSeverity} |
+| Focus | ${repoSettings.focus.length > 0 ? repoSettings.focus.join(', ') : 'none'} |
+| Maximum comments | ${repoSettings.maxComments ?? 'unlimited'} |
+| Extra instructions | ${repoSettings.instructions ? 'yes' : 'none'} |
+| Path rules | ${repoSettings.rules.length > 0 ? repoSettings.rules.map(rule => globs(rule.paths, '')).join('; ') : 'none'} |
+| Ignored findings | ${ignored} |
+| Last reviewed commit | ${settings.lastReviewedSha ? `\`${settings.lastReviewedSha.slice(0, 7)}\`` : 'none'} |`;
 }
 
 /**
  * Post rate limit warning comment
  */
 async function postRateLimitWarning(
+  githubService: GitHubService,
   owner: string,
   repo: string,
   pullNumber: number
@@ -303,6 +648,7 @@ This repository has exceeded the review rate limit. Please try again after ${res
  * Post error comment when review processing fails
  */
 async function postErrorComment(
+  githubService: GitHubService,
   owner: string,
   repo: string,
   pullNumber: number,
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for AdminReviewService
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AdminReviewService } from '../services/admin-reviews';
+import { ReviewQueue } from '../services/review-queue';
+import { RepositoryRegistry } from '../services/repository-registry';
+import { GitHubService } from '../services/github';
+import { MemoryStateStore } from '../utils/state-store';
+import { Logger } from '../utils/logger';
+import { EnabledRepository, ReviewJob } from '../types';
+
+vi.mock('../utils/config', () => ({
+  default: {
+    GITHUB_AUTH_MODE: 'app',
+    GEMINI_API_KEY: 'gemini-key',
+    REVIEW_QUEUE_CONCURRENCY: 1,
+    REVIEW_QUEUE_MAX_ATTEMPTS: 1,
+    REVIEW_QUEUE_BACKOFF_MS: 1
+  }
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+const comments = [{ path: 'src/app.ts', line: 3, body: 'Possible null dereference' }];
+
+async function createService(handler = vi.fn().mockResolvedValue({ status: 'completed', provider: 'gemini', comments })) {
+  const queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger);
+  const registry = new RepositoryRegistry(new MemoryStateStore<EnabledRepository>(), mockLogger);
+  await registry.enable(42, ['owner/app']);
+  const githubService = { isRepositoryAllowed: vi.fn().mockReturnValue(true) } as unknown as GitHubService;
+
+  return { service: new AdminReviewService(queue, registry, githubService, mockLogger), queue, handler };
+}
+
+describe('AdminReviewService', () => {
+  it('should queue a review and report its result', async () => {
+    const { service, queue, handler } = await createService();
+
+    const queued = await service.triggerReview({ owner: 'owner', repo: 'app', pullNumber: 7, focus: 'error handling' });
+    for (let i = 0; i < 100 && (await service.getReview(queued.id)).status !== 'completed'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    const review = await service.getReview(queued.id);
+    queue.stop();
+
+    expect(handler.mock.calls[0][0].request).toMatchObject({
+      owner: 'owner',
+      repo: 'app',
+      pullNumber: 7,
+      focus: 'error handling',
+      installationId: 42,
+      isManualTrigger: true
+    });
+    expect(review).toMatchObject({
+      status: 'completed',
+      repository: 'owner/app',
+      provider: 'gemini',
+      comments
+    });
+    expect(review.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should reject invalid requests', async () => {
+    const { service, queue } = await createService();
+
+    await expect(service.triggerReview({ owner: 'owner', repo: 'app', pullNumber: '7' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.triggerReview({ owner: 'owner', repo: 'app', pullNumber: 7, provider: 'deepseek' }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'provider deepseek is not configured' });
+    await expect(service.triggerReview({ owner: '../etc', repo: 'app', pullNumber: 7 }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.triggerReview({ owner: 'owner', repo: 'app', pullNumber: 7, dryRun: 'yes' }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'dryRun must be a boolean' });
+    queue.stop();
+  });
+
+  it('should reject repositories the app is not installed on', async () => {
+    const { service, queue } = await createService();
+
+    await expect(service.triggerReview({ owner: 'owner', repo: 'other', pullNumber: 1 }))
+      .rejects.toMatchObject({ statusCode: 404 });
+    await expect(service.getReview('missing')).rejects.toMatchObject({ statusCode: 404 });
+    queue.stop();
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { AIResponseParser } from '../utils/ai-response-parser';
+import { AIResponseParser, createFindingId } from '../utils/ai-response-parser';
 
 describe('AIResponseParser', () => {
   const parser = new AIResponseParser();
@@ -31,7 +31,8 @@ describe('AIResponseParser', () => {
       expect(result[0]).toEqual({
         path: 'src/index.ts',
         line: 15,
-        body: expect.stringContaining('**Issue Type**: Bug')
+        body: expect.stringContaining('**Issue Type**: Bug'),
+        severity: 'high'
       });
       expect(result[0].body).toContain('**Severity**: High');
       expect(result[0].body).toContain('**Description**: Missing null check before accessing property');
@@ -63,6 +64,7 @@ describe('AIResponseParser', () => {
       expect(result[1].path).toBe('src/utils/helper.ts');
       expect(result[1].line).toBe(42);
       expect(result[1].body).toContain('**Severity**: Critical');
+      expect(result.map(comment => comment.severity)).toEqual(['high', 'critical']);
     });
     
     it('should handle malformed location gracefully', () => {
@@ -78,7 +80,27 @@ describe('AIResponseParser', () => {
       
       expect(result).toHaveLength(1);
       expect(result[0].path).toBe('src/index.ts');
-      expect(result[0].line).toBe(1); // Default to line 1
+      expect(result[0].line).toBe(0); // Unknown line
+    });
+
+    it('should leave the line unknown when it is not a number', () => {
+      const response = `**Location**: src/index.ts:top of file
+**Issue Type**: Bug
+**Description**: Missing license header
+**Severity**: Low
+**Suggested Change**: Add the header
+
+**Location**: src/app.ts:12
+**Issue Type**: Bug
+**Description**: Unused import
+**Severity**: Low
+**Suggested Change**: Remove it
+
+---`;
+
+      const result = parser.parseAIResponse(response);
+
+      expect(result.map(comment => [comment.path, comment.line])).toEqual([['src/index.ts', 0], ['src/app.ts', 12]]);
     });
     
     it('should handle multi-line descriptions and suggestions', () => {
@@ -105,3 +127,23 @@ if (value !== null) {
     });
   });
 });
+
+describe('createFindingId', () => {
+  const finding = (description: string) => ({
+    path: 'src/app.ts',
+    body: `**Issue Type**: Bug\n**Description**: ${description}\n**Severity**: High\n**Suggested Change**: Check for null`
+  });
+
+  it('should keep the ID when the AI rewords the finding', () => {
+    expect(createFindingId(finding('`user` may be null'), 'const name = user.name;'))
+      .toBe(createFindingId(finding('Accessing `name` fails when `user` is null'), '  const name  = user.name;'));
+  });
+
+  it('should tell findings on different lines or of different types apart', () => {
+    const id = createFindingId(finding('`user` may be null'), 'const name = user.name;');
+
+    expect(createFindingId(finding('`user` may be null'), 'const id = user.id;')).not.toBe(id);
+    expect(createFindingId({ ...finding('`user` may be null'), body: '**Issue Type**: Security' }, 'const name = user.name;'))
+      .not.toBe(id);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for CodeReviewService
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CodeReviewService } from '../services/code-reviewer';
+import { PullRequestSettingsService } from '../services/pull-request-settings';
+import { GitHubService } from '../services/github';
+import { AIClient } from '../services/ai-client';
+import { AIResponseParser } from '../utils/ai-response-parser';
+import { DiffProcessor } from '../utils/diff-processor';
+import { MemoryStateStore } from '../utils/state-store';
+import { Logger } from '../utils/logger';
+import { PullRequestSettings } from '../types';
+import { getDefaultRepositoryConfig } from '../utils/repository-config';
+
+vi.mock('../utils/config', () => ({
+  default: {
+    MAX_DIFF_SIZE: 50000,
+    ALLOWED_FILE_EXTENSIONS: ['.ts'],
+    REVIEW_MAX_CHUNKS: 2,
+    REVIEW_CHUNK_CONCURRENCY: 1,
+    REVIEW_CONTEXT_LINES: 0,
+    REVIEW_RELATED_FILES_MAX_TOKENS: 0
+  }
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+function fileDiff(path: string): string {
+  return `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n@@ -1,1 +1,2 @@\n const a = 1;\n+const b = 2;\n`;
+}
+
+function createService(headSha: string, diff: string) {
+  const githubService = {
+    getPullRequestData: vi.fn().mockResolvedValue({
+      number: 7,
+      title: 'Tweak',
+      body: '',
+      headSha,
+      baseSha: 'base',
+      baseRef: 'main',
+      diff,
+      files: []
+    }),
+    getIncrementalDiff: vi.fn().mockResolvedValue(fileDiff('src/c.ts')),
+    getPullRequestCommitMessages: vi.fn().mockResolvedValue([]),
+    getIssue: vi.fn().mockResolvedValue(null),
+    setCommitStatusForSha: vi.fn().mockResolvedValue(undefined),
+    postPRComment: vi.fn().mockResolvedValue(undefined),
+    createReview: vi.fn().mockResolvedValue(undefined)
+  };
+  const aiClient = {
+    provider: 'gemini',
+    generateCompletion: vi.fn().mockResolvedValue('No significant issues found. Good job!')
+  };
+  const service = new CodeReviewService(
+    githubService as unknown as GitHubService,
+    aiClient as unknown as AIClient,
+    new AIResponseParser(),
+    mockLogger,
+    new DiffProcessor()
+  );
+  return { service, githubService };
+}
+
+describe('CodeReviewService', () => {
+  it('should review a push after a path-scoped review from the last full review', async () => {
+    const settings = new PullRequestSettingsService(new MemoryStateStore<PullRequestSettings>(), mockLogger);
+    const diff = fileDiff('src/a.ts') + fileDiff('src/b.ts');
+
+    const full = await createService('aaa', diff).service.conductReview('owner', 'app', 7);
+    expect(full).toMatchObject({ status: 'completed', fullScope: true });
+    expect(await settings.recordReview('owner', 'app', 7, full)).toBe(true);
+
+    const scoped = await createService('bbb', diff).service.conductReview('owner', 'app', 7, { paths: ['src/a.ts'] });
+    expect(scoped).toMatchObject({ status: 'completed', fullScope: false, reviewedSha: 'bbb' });
+    expect(await settings.recordReview('owner', 'app', 7, scoped)).toBe(false);
+
+    const { service, githubService } = createService('ccc', diff + fileDiff('src/c.ts'));
+    const { lastReviewedSha } = await settings.get('owner', 'app', 7);
+    const pushed = await service.conductReview('owner', 'app', 7, { sinceSha: lastReviewedSha });
+
+    expect(githubService.getIncrementalDiff).toHaveBeenCalledWith('owner', 'app', 'aaa', 'ccc');
+    expect(pushed).toMatchObject({ status: 'completed', incrementalFrom: 'aaa' });
+  });
+
+  it('should record the head of a review that left out a lockfile', async () => {
+    const settings = new PullRequestSettingsService(new MemoryStateStore<PullRequestSettings>(), mockLogger);
+    const { service } = createService('aaa', fileDiff('src/a.ts') + fileDiff('package-lock.json'));
+
+    const result = await service.conductReview('owner', 'app', 7);
+
+    expect(result).toMatchObject({ status: 'completed', fullScope: true });
+    expect(await settings.recordReview('owner', 'app', 7, result)).toBe(true);
+    expect(await settings.get('owner', 'app', 7)).toMatchObject({ lastReviewedSha: 'aaa' });
+  });
+
+  it('should count the chunks of every path rule group against the chunk budget', async () => {
+    const diff = fileDiff('src/a.ts') + fileDiff('test/b.ts') + fileDiff('docs/c.ts');
+    const repositoryConfig = {
+      config: {
+        ...getDefaultRepositoryConfig(),
+        rules: [
+          { paths: ['test/**'], minSeverity: 'high' as const },
+          { paths: ['docs/**'], instructions: 'Check the examples compile.' }
+        ]
+      },
+      errors: []
+    };
+    const { service, githubService } = createService('aaa', diff);
+
+    const result = await service.conductReview('owner', 'app', 7, { repositoryConfig });
+
+    expect(result).toMatchObject({ status: 'skipped', skipReason: 'diff_too_large' });
+    expect(githubService.postPRComment).toHaveBeenCalledWith('owner', 'app', 7, expect.stringContaining('would need 3 review chunks'));
+  });
+});
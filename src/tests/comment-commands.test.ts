@@ -0,0 +1,52 @@
+/**
+ * Unit tests for the @codecritics command parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCommentCommand } from '../utils/comment-commands';
+
+describe('parseCommentCommand', () => {
+  it('should ignore comments without a mention', () => {
+    expect(parseCommentCommand('Looks good to me')).toBeNull();
+    expect(parseCommentCommand('Try `@codecritics help`')).toBeNull();
+    expect(parseCommentCommand('@codecritics-bot review')).toBeNull();
+    expect(parseCommentCommand('cc @codecritics.foo')).toBeNull();
+  });
+
+  it('should treat a bare mention as a review request', () => {
+    expect(parseCommentCommand('@codecritics')).toEqual({ name: 'review', paths: [], focus: undefined, dryRun: false });
+    expect(parseCommentCommand('Thanks!\n@CodeCritics --dry-run')).toEqual({
+      name: 'review',
+      paths: [],
+      focus: undefined,
+      dryRun: true
+    });
+  });
+
+  it('should parse review paths and options', () => {
+    expect(parseCommentCommand('@codecritics review src/api "src/**/*.sql" --focus security')).toEqual({
+      name: 'review',
+      paths: ['src/api', 'src/**/*.sql'],
+      focus: 'security',
+      dryRun: false
+    });
+    expect(parseCommentCommand('@codecritics review --focus="error handling"')).toMatchObject({ focus: 'error handling' });
+  });
+
+  it('should parse pull request commands', () => {
+    expect(parseCommentCommand('@codecritics pause')).toEqual({ name: 'pause' });
+    expect(parseCommentCommand('@codecritics RESUME')).toEqual({ name: 'resume' });
+    expect(parseCommentCommand('@codecritics ignore 1A2B3C4D')).toEqual({ name: 'ignore', findingId: '1a2b3c4d' });
+    expect(parseCommentCommand('@codecritics config')).toEqual({ name: 'config' });
+    expect(parseCommentCommand('@codecritics help')).toEqual({ name: 'help' });
+  });
+
+  it('should describe invalid commands', () => {
+    expect(parseCommentCommand('@codecritics deploy')).toEqual({ name: 'invalid', error: 'Unknown command `deploy`' });
+    expect(parseCommentCommand('@codecritics ignore this')).toMatchObject({ name: 'invalid' });
+    expect(parseCommentCommand('@codecritics review --focus')).toMatchObject({ name: 'invalid' });
+    expect(parseCommentCommand('@codecritics review --fast')).toMatchObject({ name: 'invalid' });
+    expect(parseCommentCommand('@codecritics review ../secrets')).toMatchObject({ name: 'invalid' });
+    expect(parseCommentCommand('@codecritics pause now')).toMatchObject({ name: 'invalid' });
+  });
+});
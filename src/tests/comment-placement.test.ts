@@ -0,0 +1,81 @@
+/**
+ * Unit tests for review comment placement
+ */
+
+import { describe, it, expect } from 'vitest';
+import { placeReviewComments, renderUnplacedComments } from '../utils/comment-placement';
+import { CommentableHunk } from '../types';
+
+describe('placeReviewComments', () => {
+  const hunks = new Map<string, CommentableHunk[]>([
+    ['src/a.ts', [
+      { newStart: 10, newEnd: 15, commentable: [10, 11, 12, 13, 14, 15], changed: [12, 13] },
+      { newStart: 40, newEnd: 42, commentable: [40, 41, 42], changed: [41] }
+    ]]
+  ]);
+
+  it('should keep comments on lines shown in the diff', () => {
+    const result = placeReviewComments([{ path: 'src/a.ts', line: 10, body: 'context' }], hunks, 3);
+
+    expect(result.placed).toEqual([{ path: 'src/a.ts', line: 10, body: 'context' }]);
+    expect(result.unplaced).toHaveLength(0);
+  });
+
+  it('should snap nearby comments to the closest changed line', () => {
+    const result = placeReviewComments([
+      { path: 'src/a.ts', line: 16, body: 'after hunk' },
+      { path: 'src/a.ts', line: 38, body: 'before hunk' }
+    ], hunks, 3);
+
+    expect(result.placed.map(c => c.line)).toEqual([13, 41]);
+  });
+
+  it('should not snap comments that are too far from a change', () => {
+    const result = placeReviewComments([
+      { path: 'src/a.ts', line: 25, body: 'between hunks' },
+      { path: 'src/a.ts', line: 5, body: 'before first hunk' }
+    ], hunks, 3);
+
+    expect(result.placed).toHaveLength(0);
+    expect(result.unplaced.map(c => c.line)).toEqual([25, 5]);
+  });
+
+  it('should normalize diff prefixes and reject files outside the diff', () => {
+    const result = placeReviewComments([
+      { path: 'b/src/a.ts', line: 12, body: 'prefixed' },
+      { path: 'src/other.ts', line: 12, body: 'unknown file' }
+    ], hunks, 3);
+
+    expect(result.placed).toEqual([{ path: 'src/a.ts', line: 12, body: 'prefixed' }]);
+    expect(result.unplaced).toEqual([{ path: 'src/other.ts', line: 12, body: 'unknown file' }]);
+  });
+
+  it('should not place comments with an unknown line, even at the top of a new file', () => {
+    const newFile = new Map<string, CommentableHunk[]>([
+      ['src/new.ts', [{ newStart: 1, newEnd: 3, commentable: [1, 2, 3], changed: [1, 2, 3] }]]
+    ]);
+
+    const result = placeReviewComments([{ path: 'src/new.ts', line: 0, body: 'unknown line' }], newFile, 3);
+
+    expect(result.placed).toHaveLength(0);
+    expect(result.unplaced).toEqual([{ path: 'src/new.ts', line: 0, body: 'unknown line' }]);
+  });
+});
+
+describe('renderUnplacedComments', () => {
+  it('should render nothing without comments', () => {
+    expect(renderUnplacedComments([])).toBe('');
+  });
+
+  it('should list comments with their location', () => {
+    const markdown = renderUnplacedComments([{ path: 'src/a.ts', line: 5, body: 'Consider this' }]);
+
+    expect(markdown).toContain('### Findings outside the diff');
+    expect(markdown).toContain('**`src/a.ts` line 5**\n\nConsider this');
+  });
+
+  it('should leave out unknown lines', () => {
+    expect(renderUnplacedComments([{ path: 'src/a.ts', line: 0, body: 'Consider this' }]))
+      .toContain('**`src/a.ts`**\n\nConsider this');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for DeliveryLedger
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DeliveryLedger } from '../services/delivery-ledger';
+import { MemoryStateStore } from '../utils/state-store';
+import { Logger } from '../utils/logger';
+import { DeliveryRecord } from '../types';
+
+vi.mock('../utils/config', () => ({
+  default: {
+    STATE_STORE: 'memory',
+    DELIVERY_TTL_MS: 60 * 1000
+  }
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+describe('DeliveryLedger', () => {
+  it('should claim a new delivery and reject redeliveries', async () => {
+    const ledger = new DeliveryLedger(new MemoryStateStore<DeliveryRecord>(), mockLogger);
+
+    const first = await ledger.claim('delivery-1', 'pull_request');
+    await ledger.recordOutcome('delivery-1', 'queued', { jobId: 'job-1' });
+    const second = await ledger.claim('delivery-1', 'pull_request');
+
+    expect(first.claimed).toBe(true);
+    expect(second.claimed).toBe(false);
+    expect(second.record).toMatchObject({ outcome: 'queued', jobId: 'job-1' });
+  });
+
+  it('should reject concurrent claims of the same delivery', async () => {
+    const ledger = new DeliveryLedger(new MemoryStateStore<DeliveryRecord>(), mockLogger);
+
+    const claims = await Promise.all([
+      ledger.claim('delivery-1', 'pull_request'),
+      ledger.claim('delivery-1', 'pull_request')
+    ]);
+
+    expect(claims.filter(claim => claim.claimed)).toHaveLength(1);
+  });
+
+  it('should allow failed deliveries to be processed again', async () => {
+    const ledger = new DeliveryLedger(new MemoryStateStore<DeliveryRecord>(), mockLogger);
+
+    await ledger.claim('delivery-1', 'issue_comment');
+    await ledger.recordOutcome('delivery-1', 'failed', { detail: 'boom' });
+
+    expect((await ledger.claim('delivery-1', 'issue_comment')).claimed).toBe(true);
+  });
+
+  it('should let a delivery stuck in processing be claimed again once its lease expires', async () => {
+    const ledger = new DeliveryLedger(new MemoryStateStore<DeliveryRecord>(), mockLogger, 24 * 60 * 60 * 1000);
+
+    await ledger.claim('delivery-1', 'pull_request');
+    expect((await ledger.claim('delivery-1', 'pull_request')).claimed).toBe(false);
+
+    // The process crashed between claiming and recording an outcome
+    vi.useFakeTimers({ now: Date.now() + 6 * 60 * 1000 });
+    try {
+      expect((await ledger.claim('delivery-1', 'pull_request')).claimed).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should forget deliveries once their TTL has passed', async () => {
+    const store = new MemoryStateStore<DeliveryRecord>();
+    const ledger = new DeliveryLedger(store, mockLogger, -1);
+
+    await ledger.claim('delivery-1', 'pull_request');
+    await ledger.recordOutcome('delivery-1', 'completed');
+
+    expect(await ledger.get('delivery-1')).toBeUndefined();
+    expect((await ledger.claim('delivery-1', 'pull_request')).claimed).toBe(true);
+
+    await ledger.prune();
+    expect(await store.entries()).toHaveLength(0);
+  });
+});
@@ -58,6 +58,39 @@ index 1234567..abcdef0 100644
     });
   });
   
+  describe('filterDiffByPaths', () => {
+    const diff = `diff --git a/src/api/users.ts b/src/api/users.ts
+--- a/src/api/users.ts
++++ b/src/api/users.ts
+@@ -1 +1,2 @@
++export const users = [];
+diff --git a/src/api/users.test.ts b/src/api/users.test.ts
+--- a/src/api/users.test.ts
++++ b/src/api/users.test.ts
+@@ -1 +1,2 @@
++it('works', () => {});
+diff --git a/docs/api.md b/docs/api.md
+--- a/docs/api.md
++++ b/docs/api.md
+@@ -1 +1,2 @@
++# API
+`;
+
+    it('should keep files below a directory', () => {
+      const result = processor.filterDiffByPaths(diff, ['src/api/']);
+
+      expect(result).toContain('b/src/api/users.ts');
+      expect(result).toContain('b/src/api/users.test.ts');
+      expect(result).not.toContain('docs/api.md');
+    });
+
+    it('should match glob patterns', () => {
+      expect(processor.filterDiffByPaths(diff, ['*.test.ts'])).toMatch(/^diff --git a\/src\/api\/users.test.ts/);
+      expect(processor.filterDiffByPaths(diff, ['src/**/*.ts', 'docs/*.md']).match(/diff --git/g)).toHaveLength(3);
+      expect(processor.filterDiffByPaths(diff, ['lib/**'])).toBe('');
+    });
+  });
+  
   describe('processLargeDiffInChunks', () => {
     it('should process diff in chunks', async () => {
       const diff = `diff --git a/file1.ts b/file1.ts
@@ -87,6 +120,23 @@ index 1234567..abcdef0 100644
       expect(results[0]).toContain('Processed:');
     });
     
+    it('should process chunks with bounded parallelism and keep diff order', async () => {
+      const diff = ['a', 'b', 'c', 'd'].map(name => `diff --git a/${name}.ts b/${name}.ts\n+${name.repeat(60)}\n`).join('');
+      let active = 0;
+      let maxActive = 0;
+
+      const results = await processor.processLargeDiffInChunks(diff, 100, async (chunk, index, total) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5 * (total - index)));
+        active--;
+        return chunk.match(/b\/(\w)\.ts/)![1];
+      }, 2);
+
+      expect(results).toEqual(['a', 'b', 'c', 'd']);
+      expect(maxActive).toBe(2);
+    });
+    
     it('should handle empty diff', async () => {
       const mockProcessor = vi.fn().mockResolvedValue('processed');
       const results = await processor.processLargeDiffInChunks('', 100, mockProcessor);
@@ -95,4 +145,137 @@ index 1234567..abcdef0 100644
       expect(mockProcessor).not.toHaveBeenCalled();
     });
   });
+
+  describe('getCommentableHunks', () => {
+    it('should collect new-side lines per hunk', () => {
+      const diff = `diff --git a/src/a.ts b/src/a.ts
+index 1234567..abcdef0 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,3 +1,4 @@
+ const a = 1;
+-const b = 2;
++const b = 3;
++const c = 4;
+ export {};
+@@ -20,2 +21,3 @@ function later() {
+ return a;
++++counter;
+ }
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+--- a/src/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-gone`;
+
+      const hunks = processor.getCommentableHunks(diff);
+
+      expect([...hunks.keys()]).toEqual(['src/a.ts']);
+      expect(hunks.get('src/a.ts')).toEqual([
+        { newStart: 1, newEnd: 4, commentable: [1, 2, 3, 4], changed: [2, 3] },
+        { newStart: 21, newEnd: 23, commentable: [21, 22, 23], changed: [22] }
+      ]);
+    });
+  });
+
+  describe('getNewLineContents', () => {
+    it('should map new-side line numbers to their content', () => {
+      const diff = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,2 +1,2 @@
+ const a = 1;
+-const b = 2;
++const b = 3;`;
+
+      expect(processor.getNewLineContents(diff).get('src/a.ts')).toEqual(new Map([
+        [1, 'const a = 1;'],
+        [2, 'const b = 3;']
+      ]));
+    });
+  });
+
+  describe('parseDiff', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1234567..abcdef0 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,3 +1,3 @@ export function a() {',
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+      ' return a;',
+      '@@ -10 +10,2 @@',
+      '-}',
+      '\\ No newline at end of file',
+      '+}',
+      '+',
+      'diff --git a/old.ts b/new.ts',
+      'similarity index 90%',
+      'rename from old.ts',
+      'rename to new.ts',
+      'diff --git a/lib.ts b/lib-copy.ts',
+      'similarity index 100%',
+      'copy from lib.ts',
+      'copy to lib-copy.ts',
+      'diff --git a/gone.ts b/gone.ts',
+      'deleted file mode 100644',
+      'index 1234567..0000000',
+      '--- a/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-gone',
+      'diff --git a/logo.png b/logo.png',
+      'new file mode 100644',
+      'index 0000000..1234567',
+      'Binary files /dev/null and b/logo.png differ',
+      'diff --git a/run.sh b/run.sh',
+      'old mode 100644',
+      'new mode 100755',
+      ''
+    ].join('\n');
+
+    it('should parse files with their status and paths', () => {
+      const files = processor.parseDiff(diff);
+
+      expect(files.map(({ oldPath, newPath, status, binary }) => ({ oldPath, newPath, status, binary }))).toEqual([
+        { oldPath: 'src/a.ts', newPath: 'src/a.ts', status: 'modified', binary: false },
+        { oldPath: 'old.ts', newPath: 'new.ts', status: 'renamed', binary: false },
+        { oldPath: 'lib.ts', newPath: 'lib-copy.ts', status: 'copied', binary: false },
+        { oldPath: 'gone.ts', newPath: null, status: 'deleted', binary: false },
+        { oldPath: null, newPath: 'logo.png', status: 'added', binary: true },
+        { oldPath: 'run.sh', newPath: 'run.sh', status: 'modified', binary: false }
+      ]);
+      expect(files[1].similarity).toBe(90);
+      expect(files[5]).toMatchObject({ oldMode: '100644', newMode: '100755', hunks: [] });
+    });
+
+    it('should parse hunks and number their lines', () => {
+      const [file] = processor.parseDiff(diff);
+
+      expect(file.hunks.map(({ oldStart, oldLines, newStart, newLines, section }) =>
+        ({ oldStart, oldLines, newStart, newLines, section }))).toEqual([
+        { oldStart: 1, oldLines: 3, newStart: 1, newLines: 3, section: 'export function a() {' },
+        { oldStart: 10, oldLines: 1, newStart: 10, newLines: 2, section: '' }
+      ]);
+      expect(file.hunks[0].lines).toEqual([
+        { kind: 'context', content: 'const a = 1;', oldNumber: 1, newNumber: 1 },
+        { kind: 'removed', content: 'const b = 2;', oldNumber: 2 },
+        { kind: 'added', content: 'const b = 3;', newNumber: 2 },
+        { kind: 'context', content: 'return a;', oldNumber: 3, newNumber: 3 }
+      ]);
+      expect(file.hunks[1].lines.map(line => line.kind)).toEqual(['removed', 'no_newline', 'added', 'added']);
+    });
+
+    it('should serialize parsed files back to the same diff', () => {
+      expect(processor.serializeDiff(processor.parseDiff(diff))).toBe(diff);
+    });
+
+    it('should return no files for an empty diff', () => {
+      expect(processor.parseDiff('')).toEqual([]);
+      expect(processor.serializeDiff([])).toBe('');
+    });
+  });
 });
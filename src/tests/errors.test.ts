@@ -0,0 +1,41 @@
+/**
+ * Unit tests for application errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import express from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ApiError, toBodyParseApiError } from '../utils/errors';
+
+describe('toBodyParseApiError', () => {
+  it('should turn a malformed JSON body into a 400 ApiError', async () => {
+    let parseError: unknown;
+    const parseJson = express.json();
+    const server = http.createServer((req, res) => parseJson(req, res, error => {
+      parseError = error;
+      res.end();
+    }));
+    server.listen(0);
+    try {
+      await new Promise(resolve => server.once('listening', resolve));
+      const { port } = server.address() as AddressInfo;
+      await fetch(`http://127.0.0.1:${port}/`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{ "owner": '
+      });
+    } finally {
+      server.close();
+    }
+
+    const apiError = toBodyParseApiError(parseError);
+    expect(apiError).toBeInstanceOf(ApiError);
+    expect(apiError?.statusCode).toBe(400);
+  });
+
+  it('should leave other errors alone', () => {
+    expect(toBodyParseApiError(new Error('boom'))).toBeUndefined();
+    expect(toBodyParseApiError(new SyntaxError('Unexpected token'))).toBeUndefined();
+  });
+});
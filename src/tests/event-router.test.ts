@@ -0,0 +1,51 @@
+/**
+ * Unit tests for WebhookEventRouter
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WebhookEventRouter } from '../services/event-router';
+import { Logger } from '../utils/logger';
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+describe('WebhookEventRouter', () => {
+  it('should dispatch events to the handler registered for the action', async () => {
+    const router = new WebhookEventRouter(mockLogger);
+    const openedHandler = vi.fn().mockResolvedValue({ outcome: 'queued', message: 'queued', jobId: 'job-1' });
+    const commentHandler = vi.fn();
+    router.on('pull_request.opened', openedHandler);
+    router.on('issue_comment.created', commentHandler);
+
+    const result = await router.dispatch('delivery-1', 'pull_request', { action: 'opened' });
+
+    expect(result).toEqual({ outcome: 'queued', message: 'queued', jobId: 'job-1' });
+    expect(openedHandler).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'delivery-1',
+      name: 'pull_request',
+      payload: { action: 'opened' }
+    }));
+    expect(commentHandler).not.toHaveBeenCalled();
+  });
+
+  it('should report unhandled events as ignored', async () => {
+    const router = new WebhookEventRouter(mockLogger);
+    router.on('pull_request.opened', vi.fn());
+
+    const result = await router.dispatch('delivery-1', 'pull_request', { action: 'closed' });
+
+    expect(result).toEqual({ outcome: 'ignored', message: "Event 'pull_request.closed' is not handled" });
+  });
+
+  it('should rethrow the original handler error', async () => {
+    const router = new WebhookEventRouter(mockLogger);
+    router.on('issue_comment.created', vi.fn().mockRejectedValue(new Error('GitHub unavailable')));
+
+    await expect(router.dispatch('delivery-1', 'issue_comment', { action: 'created' }))
+      .rejects.toThrow('GitHub unavailable');
+  });
+});
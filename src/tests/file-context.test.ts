@@ -0,0 +1,70 @@
+/**
+ * Unit tests for the surrounding code shown around diff hunks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiffHunk } from '../types';
+import { getContextRanges, renderFileContext } from '../utils/file-context';
+
+function hunk(newStart: number, newLines: number): DiffHunk {
+  return { oldStart: newStart, oldLines: newLines, newStart, newLines, section: '', lines: [] };
+}
+
+const source = [
+  'import { x } from "./x";',
+  '',
+  'export function total(items: number[]): number {',
+  '  const base = 10;',
+  '  let sum = base;',
+  '  for (const item of items) {',
+  '    sum += item;',
+  '  }',
+  '  return sum;',
+  '}',
+  '',
+  'const a = 1;',
+  'const b = 2;',
+  'const c = 3;',
+  'const d = 4;'
+];
+
+describe('getContextRanges', () => {
+  it('should show the enclosing function of a hunk', () => {
+    expect(getContextRanges(source, [hunk(7, 1)], 1)).toEqual([{ start: 3, end: 10 }]);
+  });
+
+  it('should fall back to a window around top-level hunks, clamped to the file', () => {
+    expect(getContextRanges(source, [hunk(14, 1)], 2)).toEqual([{ start: 12, end: 15 }]);
+    expect(getContextRanges(source, [hunk(1, 1)], 2)).toEqual([{ start: 1, end: 3 }]);
+  });
+
+  it('should merge overlapping ranges and skip deletion-only hunks', () => {
+    expect(getContextRanges(source, [hunk(5, 1), hunk(9, 1), hunk(12, 0)], 1)).toEqual([{ start: 3, end: 10 }]);
+    expect(getContextRanges(source, [hunk(10, 1), hunk(12, 1)], 1)).toEqual([{ start: 9, end: 13 }]);
+  });
+});
+
+describe('renderFileContext', () => {
+  it('should number lines with their new-file line numbers', () => {
+    const rendered = renderFileContext('src/total.ts', source, [{ start: 9, end: 10 }, { start: 12, end: 12 }]);
+
+    expect(rendered).toBe([
+      '<<<CONTEXT src/total.ts>>>',
+      ' 9 |   return sum;',
+      '10 | }',
+      '...',
+      '12 | const a = 1;',
+      '<<<END CONTEXT>>>'
+    ].join('\n'));
+  });
+
+  it('should keep file content from closing the block', () => {
+    const rendered = renderFileContext('a.ts', ['// <<<END CONTEXT>>>'], [{ start: 1, end: 1 }]);
+
+    expect(rendered.match(/<<<END CONTEXT>>>/g)).toHaveLength(1);
+  });
+
+  it('should render nothing without ranges', () => {
+    expect(renderFileContext('a.ts', source, [])).toBe('');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for generated file detection and .gitattributes parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiffProcessor } from '../utils/diff-processor';
+import { detectGeneratedFile, partitionGeneratedFiles, renderExcludedFiles } from '../utils/generated-files';
+import { getGitAttributes, parseGitAttributes } from '../utils/gitattributes';
+
+const processor = new DiffProcessor();
+
+function fileDiff(path: string, added: string[]): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    '--- a/' + path,
+    '+++ b/' + path,
+    `@@ -0,0 +1,${added.length} @@`,
+    ...added.map(line => `+${line}`),
+    ''
+  ].join('\n');
+}
+
+describe('parseGitAttributes', () => {
+  it('should let later lines override earlier ones per attribute', () => {
+    const rules = parseGitAttributes([
+      '# generated clients',
+      'src/api/** linguist-generated eol=lf',
+      'src/api/index.ts -linguist-generated',
+      '*.png binary',
+      'docs/** !eol'
+    ].join('\n'));
+
+    expect(getGitAttributes('src/api/client.ts', rules)).toEqual({ 'linguist-generated': true, eol: 'lf' });
+    expect(getGitAttributes('src/api/index.ts', rules)['linguist-generated']).toBe(false);
+    expect(getGitAttributes('assets/logo.png', rules)).toEqual({ binary: true, diff: false, merge: false, text: false });
+    expect(getGitAttributes('src/app.ts', rules)).toEqual({});
+  });
+});
+
+describe('detectGeneratedFile', () => {
+  it('should honour .gitattributes', () => {
+    const rules = parseGitAttributes('src/gen/** linguist-generated\nthird_party/** linguist-vendored\n*.svg -diff');
+    const [generated, vendored, noDiff] = processor.parseDiff(
+      fileDiff('src/gen/client.ts', ['export {};']) +
+      fileDiff('third_party/lib.js', ['x();']) +
+      fileDiff('icons/logo.svg', ['<svg/>'])
+    );
+
+    expect(detectGeneratedFile(generated, rules)).toBe('marked `linguist-generated` in .gitattributes');
+    expect(detectGeneratedFile(vendored, rules)).toBe('marked `linguist-vendored` in .gitattributes');
+    expect(detectGeneratedFile(noDiff, rules)).toBe('marked `-diff` in .gitattributes');
+  });
+
+  it('should detect lockfiles, build outputs and generated content', () => {
+    const [lockfile, output, header, minified, source] = processor.parseDiff(
+      fileDiff('web/package-lock.json', ['{}']) +
+      fileDiff('dist/index.js', ['module.exports = {};']) +
+      fileDiff('src/schema.ts', ['// Code generated by protoc. DO NOT EDIT.', 'export {};']) +
+      fileDiff('public/app.js', ['var a=1;'.repeat(100)]) +
+      fileDiff('src/app.ts', ['export const a = 1;', `const text = '${'x'.repeat(600)}';`, ...Array(40).fill('call();'.repeat(10))])
+    );
+
+    expect(detectGeneratedFile(lockfile)).toBe('lockfile');
+    expect(detectGeneratedFile(output)).toBe('build output');
+    expect(detectGeneratedFile(header)).toBe('generated file header');
+    expect(detectGeneratedFile(minified)).toBe('minified content');
+    expect(detectGeneratedFile(source)).toBeUndefined();
+  });
+
+  it('should keep files explicitly marked as not generated', () => {
+    const [lockfile] = processor.parseDiff(fileDiff('yarn.lock', ['# yarn lockfile']));
+
+    expect(detectGeneratedFile(lockfile, parseGitAttributes('yarn.lock linguist-generated=false'))).toBeUndefined();
+  });
+});
+
+describe('partitionGeneratedFiles', () => {
+  it('should split files and list the excluded ones', () => {
+    const files = processor.parseDiff(fileDiff('src/app.ts', ['run();']) + fileDiff('go.sum', ['hash']));
+    const { kept, excluded } = partitionGeneratedFiles(files);
+
+    expect(kept.map(file => file.newPath)).toEqual(['src/app.ts']);
+    expect(excluded).toEqual([{ path: 'go.sum', reason: 'lockfile' }]);
+    expect(renderExcludedFiles(excluded)).toContain('<summary>1 file not reviewed (generated, vendored or lockfiles)</summary>');
+    expect(renderExcludedFiles([])).toBe('');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for GitHubAppAuth
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { Octokit } from '@octokit/rest';
+import { GitHubAppAuth } from '../services/github-app-auth';
+import { Logger } from '../utils/logger';
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' }
+});
+
+function createOctokitFactory(expiresInMs: number = 60 * 60 * 1000) {
+  let issued = 0;
+  const createInstallationAccessToken = vi.fn(async ({ installation_id }: { installation_id: number; }) => ({
+    data: {
+      token: `token-${installation_id}-${++issued}`,
+      expires_at: new Date(Date.now() + expiresInMs).toISOString()
+    }
+  }));
+  const factory = vi.fn(() => ({
+    rest: { apps: { createInstallationAccessToken } }
+  }) as unknown as Octokit);
+
+  return { factory, createInstallationAccessToken };
+}
+
+describe('GitHubAppAuth', () => {
+  it('should sign a JWT for the app with the private key', () => {
+    const auth = new GitHubAppAuth('12345', privateKey, mockLogger);
+    const now = Date.UTC(2024, 0, 1);
+
+    const [header, payload, signature] = auth.createJwt(now).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(claims.iss).toBe('12345');
+    expect(claims.iat).toBe(now / 1000 - 60);
+    expect(claims.exp - claims.iat).toBeLessThanOrEqual(600);
+    expect(
+      createVerify('RSA-SHA256').update(`${header}.${payload}`).verify(publicKey, signature, 'base64url')
+    ).toBe(true);
+  });
+
+  it('should cache installation tokens per installation', async () => {
+    const { factory, createInstallationAccessToken } = createOctokitFactory();
+    const auth = new GitHubAppAuth('12345', privateKey, mockLogger, factory);
+
+    const [first, concurrent] = await Promise.all([
+      auth.getInstallationToken(1),
+      auth.getInstallationToken(1)
+    ]);
+    const cached = await auth.getInstallationToken(1);
+    const other = await auth.getInstallationToken(2);
+
+    expect(first).toBe('token-1-1');
+    expect(concurrent).toBe(first);
+    expect(cached).toBe(first);
+    expect(other).toBe('token-2-2');
+    expect(createInstallationAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('should request a new token when the cached one is about to expire', async () => {
+    const { factory, createInstallationAccessToken } = createOctokitFactory(60 * 1000);
+    const auth = new GitHubAppAuth('12345', privateKey, mockLogger, factory);
+
+    await auth.getInstallationToken(1);
+    const refreshed = await auth.getInstallationToken(1);
+
+    expect(refreshed).toBe('token-1-2');
+    expect(createInstallationAccessToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('should derive the bot login from the configured app slug', async () => {
+    const auth = new GitHubAppAuth('12345', privateKey, mockLogger, undefined, 'code-critics');
+
+    expect(await auth.getBotLogin()).toBe('code-critics[bot]');
+  });
+
+  it('should authenticate Octokit requests as the installation', async () => {
+    const { factory } = createOctokitFactory();
+    const auth = new GitHubAppAuth('12345', privateKey, mockLogger, factory);
+    const fetch = vi.fn(async () => new Response('{}', {
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    }));
+    const octokit = new Octokit({
+      authStrategy: auth.createInstallationAuthStrategy(7),
+      request: { fetch }
+    });
+
+    await octokit.rest.pulls.get({ owner: 'owner', repo: 'repo', pull_number: 1 });
+
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>).authorization).toBe('token token-7-1');
+  });
+});
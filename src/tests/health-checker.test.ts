@@ -0,0 +1,93 @@
+/**
+ * Unit tests for HealthChecker
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { HealthChecker } from '../services/health-checker';
+import { GitHubService } from '../services/github';
+import { AIClient } from '../services/ai-client';
+import { ReviewQueue } from '../services/review-queue';
+import { Logger } from '../utils/logger';
+
+vi.mock('../utils/config', () => ({
+  default: {
+    GITHUB_AUTH_MODE: 'pat',
+    GITHUB_TOKEN: 'token',
+    WEBHOOK_SECRETS: ['secret'],
+    AI_PROVIDER: 'gemini',
+    HEALTH_CACHE_TTL_MS: 30000,
+    HEALTH_MAX_BACKLOG: 5
+  }
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+function createChecker(overrides: { pending?: number; aiHealthy?: boolean; } = {}) {
+  const githubService = {
+    validateToken: vi.fn().mockResolvedValue({ login: 'code-critics[bot]', id: 1 }),
+    checkRateLimit: vi.fn().mockResolvedValue({ limit: 5000, remaining: 4000, reset: new Date(), used: 1000 })
+  };
+  const aiClient = {
+    provider: 'gemini',
+    checkHealth: overrides.aiHealthy === false
+      ? vi.fn().mockRejectedValue(new Error('Gemini API health check failed: 401 - Unauthorized'))
+      : vi.fn().mockResolvedValue(undefined)
+  };
+  const reviewQueue = {
+    getStats: vi.fn().mockResolvedValue({ pending: overrides.pending ?? 0, running: 1, completed: 3, dead: 0, cancelled: 0 })
+  };
+
+  const checker = new HealthChecker(
+    githubService as unknown as GitHubService,
+    () => aiClient as unknown as AIClient,
+    reviewQueue as unknown as ReviewQueue,
+    mockLogger
+  );
+  return { checker, githubService, aiClient };
+}
+
+describe('HealthChecker', () => {
+  it('should report liveness without outbound calls', () => {
+    const { checker, githubService, aiClient } = createChecker();
+
+    expect(checker.checkLiveness().status).toBe('ok');
+    expect(githubService.validateToken).not.toHaveBeenCalled();
+    expect(aiClient.checkHealth).not.toHaveBeenCalled();
+  });
+
+  it('should report per-component readiness and cache outbound checks', async () => {
+    const { checker, githubService, aiClient } = createChecker();
+
+    const report = await checker.checkReadiness();
+    await checker.checkReadiness();
+
+    expect(report.status).toBe('ok');
+    expect(Object.keys(report.components)).toEqual(['config', 'queue', 'github', 'ai']);
+    expect(report.components.ai.details).toEqual({ provider: 'gemini' });
+    expect(githubService.validateToken).toHaveBeenCalledTimes(1);
+    expect(aiClient.checkHealth).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report an unreachable AI provider as an error', async () => {
+    const { checker } = createChecker({ aiHealthy: false });
+
+    const report = await checker.checkReadiness();
+
+    expect(report.status).toBe('error');
+    expect(report.components.ai.message).toContain('401');
+  });
+
+  it('should report a review backlog as degraded', async () => {
+    const { checker } = createChecker({ pending: 6 });
+
+    const report = await checker.checkReadiness();
+
+    expect(report.status).toBe('degraded');
+    expect(report.components.queue).toMatchObject({ status: 'degraded', details: { pending: 6 } });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the Prometheus metrics registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from '../utils/metrics';
+
+describe('MetricsRegistry', () => {
+  it('should render labelled counters and gauges', () => {
+    const registry = new MetricsRegistry();
+    const webhooks = registry.counter('webhooks_total', 'Webhooks received', ['event', 'action']);
+    const remaining = registry.gauge('rate_limit_remaining', 'Remaining requests');
+
+    webhooks.inc({ event: 'pull_request', action: 'opened' });
+    webhooks.inc({ event: 'pull_request', action: 'opened' });
+    webhooks.inc({ event: 'issue_comment', action: 'created' });
+    remaining.set(undefined, 4200);
+
+    expect(registry.render()).toBe([
+      '# HELP webhooks_total Webhooks received',
+      '# TYPE webhooks_total counter',
+      'webhooks_total{event="pull_request",action="opened"} 2',
+      'webhooks_total{event="issue_comment",action="created"} 1',
+      '# HELP rate_limit_remaining Remaining requests',
+      '# TYPE rate_limit_remaining gauge',
+      'rate_limit_remaining 4200',
+      ''
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('ai_seconds', 'AI latency', ['provider'], [1, 5]);
+
+    latency.observe({ provider: 'gemini' }, 0.5);
+    latency.observe({ provider: 'gemini' }, 3);
+    latency.observe({ provider: 'gemini' }, 12);
+
+    expect(registry.render()).toContain([
+      'ai_seconds_bucket{provider="gemini",le="1"} 1',
+      'ai_seconds_bucket{provider="gemini",le="5"} 2',
+      'ai_seconds_bucket{provider="gemini",le="+Inf"} 3',
+      'ai_seconds_sum{provider="gemini"} 15.5',
+      'ai_seconds_count{provider="gemini"} 3'
+    ].join('\n'));
+  });
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('errors_total', 'Errors', ['reason']).inc({ reason: 'bad "quote"\nnext' });
+
+    expect(registry.render()).toContain('errors_total{reason="bad \\"quote\\"\\nnext"} 1');
+  });
+
+  it('should reject duplicate metric names', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('dup_total', 'First');
+
+    expect(() => registry.counter('dup_total', 'Second')).toThrow('already registered');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for PullRequestSettingsService
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PullRequestSettingsService } from '../services/pull-request-settings';
+import { MemoryStateStore } from '../utils/state-store';
+import { Logger } from '../utils/logger';
+import { PullRequestSettings } from '../types';
+
+vi.mock('../utils/config', () => ({
+  default: {}
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+describe('PullRequestSettingsService', () => {
+  it('should return defaults for unknown pull requests', async () => {
+    const service = new PullRequestSettingsService(new MemoryStateStore<PullRequestSettings>(), mockLogger);
+
+    expect(await service.get('owner', 'app', 7)).toMatchObject({
+      repository: 'owner/app',
+      pullNumber: 7,
+      paused: false,
+      ignoredFindings: []
+    });
+  });
+
+  it('should persist pause state and ignored findings per pull request', async () => {
+    const service = new PullRequestSettingsService(new MemoryStateStore<PullRequestSettings>(), mockLogger);
+
+    await service.setPaused('owner', 'app', 7, true, 'octocat');
+    await service.ignoreFinding('Owner', 'App', 7, '1a2b3c4d');
+    await service.ignoreFinding('owner', 'app', 7, '1a2b3c4d');
+
+    expect(await service.get('owner', 'app', 7)).toMatchObject({ paused: true, ignoredFindings: ['1a2b3c4d'] });
+    expect((await service.get('owner', 'app', 8)).paused).toBe(false);
+
+    await service.setPaused('owner', 'app', 7, false, 'octocat');
+    expect(await service.get('owner', 'app', 7)).toMatchObject({ paused: false, updatedBy: 'octocat' });
+  });
+
+  it('should remember the last reviewed head without touching command settings', async () => {
+    const service = new PullRequestSettingsService(new MemoryStateStore<PullRequestSettings>(), mockLogger);
+
+    await service.setPaused('owner', 'app', 7, true, 'octocat');
+    await service.recordReview('owner', 'app', 7, {
+      status: 'completed',
+      comments: [],
+      reviewedSha: 'abc123',
+      fullScope: true
+    });
+
+    expect(await service.get('owner', 'app', 7)).toMatchObject({
+      paused: true,
+      updatedBy: 'octocat',
+      lastReviewedSha: 'abc123'
+    });
+  });
+});
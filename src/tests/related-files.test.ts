@@ -0,0 +1,205 @@
+/**
+ * Unit tests for the related files (imports and importers) shown as review context
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DiffFile } from '../types';
+import {
+  extractSignatures,
+  extractUsages,
+  getExportedNames,
+  parseImports,
+  rankRelatedFiles,
+  resolveImport
+} from '../utils/related-files';
+import { RelatedFilesContextBuilder } from '../services/related-files-context';
+import { GitHubService } from '../services/github';
+import { Logger } from '../utils/logger';
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+function changedFile(path: string): DiffFile {
+  return { oldPath: path, newPath: path, status: 'modified', binary: false, headers: [], hunks: [] };
+}
+
+describe('parseImports', () => {
+  it('should find static, re-exported, side-effect and dynamic imports', () => {
+    const content = [
+      "import { a } from './a';",
+      'import {',
+      '  b,',
+      '  c',
+      "} from '../b';",
+      "import type { T } from './types';",
+      "export * from './reexported';",
+      "import './side-effect';",
+      "const lazy = await import('./lazy');",
+      "const fs = require('fs');"
+    ].join('\n');
+
+    expect(parseImports('src/x.ts', content)).toEqual(
+      ['./a', '../b', './types', './reexported', './side-effect', './lazy', 'fs']
+    );
+  });
+
+  it('should find Python imports, including submodules imported by name', () => {
+    const content = 'import os, app.models\nfrom .services import billing as b\nfrom . import utils\n';
+
+    expect(parseImports('app/views.py', content)).toEqual(
+      ['.services', '.services.billing', '.', '.utils', 'os', 'app.models']
+    );
+  });
+});
+
+describe('resolveImport', () => {
+  const files = new Set([
+    'src/utils/config.ts',
+    'src/utils/index.ts',
+    'src/services/github.ts',
+    'app/__init__.py',
+    'app/models.py',
+    'app/services/billing.py'
+  ]);
+
+  it('should resolve relative TypeScript imports with and without extensions', () => {
+    expect(resolveImport('src/services/github.ts', '../utils/config', files)).toBe('src/utils/config.ts');
+    expect(resolveImport('src/services/github.ts', '../utils/config.js', files)).toBe('src/utils/config.ts');
+    expect(resolveImport('src/services/github.ts', '../utils', files)).toBe('src/utils/index.ts');
+  });
+
+  it('should not resolve packages or paths outside the repository', () => {
+    expect(resolveImport('src/services/github.ts', '@octokit/rest', files)).toBeUndefined();
+    expect(resolveImport('src/index.ts', '../../outside', files)).toBeUndefined();
+  });
+
+  it('should resolve relative and absolute Python modules', () => {
+    expect(resolveImport('app/services/billing.py', '..models', files)).toBe('app/models.py');
+    expect(resolveImport('app/services/billing.py', 'app.models', files)).toBe('app/models.py');
+    expect(resolveImport('app/services/billing.py', 'app', files)).toBe('app/__init__.py');
+  });
+});
+
+describe('signatures and usages', () => {
+  const module = [
+    "import { x } from './x';",
+    '',
+    'export function total(items: number[]): number {',
+    '  return items.length;',
+    '}',
+    '',
+    'export class Cart {',
+    '  constructor(private items: number[]) {}',
+    '',
+    '  add(item: number): void {',
+    '    if (item) {',
+    '      this.items.push(item);',
+    '    }',
+    '  }',
+    '',
+    '  private clear(): void {',
+    '    this.items = [];',
+    '  }',
+    '}',
+    '',
+    'export { total as sum };'
+  ].join('\n');
+
+  it('should extract exported declarations and public class members', () => {
+    expect(extractSignatures('src/cart.ts', module)).toEqual([
+      { line: 3, text: 'export function total(items: number[]): number' },
+      { line: 7, text: 'export class Cart' },
+      { line: 8, text: '  constructor(private items: number[]) {}' },
+      { line: 10, text: '  add(item: number): void' },
+      { line: 21, text: 'export { total as sum };' }
+    ]);
+  });
+
+  it('should list exported names and find the lines using them', () => {
+    expect(getExportedNames('src/cart.ts', module)).toEqual(['total', 'Cart', 'sum']);
+
+    const importer = "import { Cart } from './cart';\n\nconst cart = new Cart([]);\ncart.add(1);\n";
+    expect(extractUsages(importer, ['Cart'])).toEqual([
+      { line: 1, text: "import { Cart } from './cart';" },
+      { line: 3, text: 'const cart = new Cart([]);' }
+    ]);
+  });
+});
+
+describe('rankRelatedFiles', () => {
+  it('should rank importers first, then by number of changed files and distance', () => {
+    const ranked = rankRelatedFiles([
+      { path: 'src/far/away.ts', relation: 'imported', changedPath: 'src/a.ts' },
+      { path: 'src/near.ts', relation: 'imported', changedPath: 'src/a.ts' },
+      { path: 'src/caller.ts', relation: 'importer', changedPath: 'src/a.ts' },
+      { path: 'src/shared.ts', relation: 'imported', changedPath: 'src/a.ts' },
+      { path: 'src/shared.ts', relation: 'imported', changedPath: 'src/b.ts' }
+    ], ['src/a.ts', 'src/b.ts']);
+
+    expect(ranked.map(file => [file.path, file.score])).toEqual([
+      ['src/shared.ts', 4],
+      ['src/caller.ts', 3],
+      ['src/near.ts', 2],
+      ['src/far/away.ts', 2]
+    ]);
+  });
+});
+
+describe('RelatedFilesContextBuilder', () => {
+  const repository: Record<string, string> = {
+    'src/cart.ts': "import { formatPrice } from './price';\n\nexport function total(items: number[]): number {\n  return items.length;\n}\n",
+    'src/price.ts': 'export function formatPrice(cents: number): string {\n  return `${cents}`;\n}\n',
+    'src/checkout.ts': "import { total } from './cart';\n\nexport const amount = total([1, 2]);\n",
+    'src/unrelated.ts': 'export const x = 1;\n',
+    'README.md': '# Shop\n'
+  };
+
+  function mockGitHubService(): GitHubService {
+    return {
+      getRepositoryTree: vi.fn().mockResolvedValue(Object.keys(repository)),
+      getFileContents: vi.fn().mockImplementation(async (_owner: string, _repo: string, paths: string[]) =>
+        new Map(paths.filter(path => path in repository).map(path => [path, repository[path]])))
+    } as unknown as GitHubService;
+  }
+
+  it('should include importers and imported modules of the changed files', async () => {
+    const githubService = mockGitHubService();
+
+    const context = await new RelatedFilesContextBuilder(githubService, mockLogger)
+      .build('octo', 'shop', 'abc123', [changedFile('src/cart.ts')], 1000);
+
+    expect(githubService.getRepositoryTree).toHaveBeenCalledWith('octo', 'shop', 'abc123');
+    expect(context).toBe([
+      '<<<RELATED src/checkout.ts (imports src/cart.ts)>>>',
+      "1 | import { total } from './cart';",
+      '3 | export const amount = total([1, 2]);',
+      '<<<END RELATED>>>',
+      '',
+      '<<<RELATED src/price.ts (imported by src/cart.ts)>>>',
+      '1 | export function formatPrice(cents: number): string',
+      '<<<END RELATED>>>'
+    ].join('\n'));
+  });
+
+  it('should leave out files that do not fit in the token budget', async () => {
+    const context = await new RelatedFilesContextBuilder(mockGitHubService(), mockLogger)
+      .build('octo', 'shop', 'abc123', [changedFile('src/cart.ts')], 35);
+
+    expect(context).toContain('src/price.ts');
+    expect(context).not.toContain('src/checkout.ts');
+  });
+
+  it('should not read the repository when no source file changed', async () => {
+    const githubService = mockGitHubService();
+
+    const context = await new RelatedFilesContextBuilder(githubService, mockLogger)
+      .build('octo', 'shop', 'abc123', [changedFile('README.md')], 1000);
+
+    expect(context).toBe('');
+    expect(githubService.getRepositoryTree).not.toHaveBeenCalled();
+  });
+});
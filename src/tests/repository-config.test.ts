@@ -0,0 +1,192 @@
+/**
+ * Unit tests for .codecritics.yml parsing and loading
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  getDefaultRepositoryConfig,
+  isPathInRepositoryScope,
+  parseRepositoryConfig,
+  resolvePathSettings
+} from '../utils/repository-config';
+import { RepositoryConfigLoader } from '../services/repository-config-loader';
+import { GitHubService } from '../services/github';
+import { Logger } from '../utils/logger';
+
+vi.mock('../utils/config', () => ({
+  default: { GEMINI_API_KEY: 'gemini-key' }
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+describe('parseRepositoryConfig', () => {
+  it('should parse every supported setting', () => {
+    const loaded = parseRepositoryConfig(`
+include: ["src/**"]
+exclude: src/generated/**
+min_severity: high
+focus: security
+instructions: |
+  Prefer early returns.
+max_comments: 5
+provider: gemini
+model: gemini-1.5-pro
+auto_review: false
+`);
+
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.source).toBe('.codecritics.yml');
+    expect(loaded.config).toEqual({
+      include: ['src/**'],
+      exclude: ['src/generated/**'],
+      minSeverity: 'high',
+      focus: ['security'],
+      instructions: 'Prefer early returns.',
+      maxComments: 5,
+      provider: 'gemini',
+      model: 'gemini-1.5-pro',
+      autoReview: false,
+      rules: []
+    });
+  });
+
+  it('should parse path rules', () => {
+    const loaded = parseRepositoryConfig(`
+rules:
+  - paths: payments/**
+    min_severity: low
+    focus: [security]
+    instructions: Amounts are integers in cents.
+  - paths: ["infra/**"]
+    review: false
+`);
+
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.config.rules).toEqual([
+      { paths: ['payments/**'], minSeverity: 'low', focus: ['security'], instructions: 'Amounts are integers in cents.' },
+      { paths: ['infra/**'], review: false }
+    ]);
+  });
+
+  it('should report problems in path rules with their position', () => {
+    expect(parseRepositoryConfig(`
+rules:
+  - min_severity: urgent
+  - paths: src/**
+    owner: team
+`).errors).toEqual([
+      'In `rules[0]`: `min_severity` must be one of: low, medium, high, critical',
+      'In `rules[0]`: `paths` is required',
+      'In `rules[1]`: Unknown setting `owner`; expected one of: paths, instructions, min_severity, focus, review'
+    ]);
+  });
+
+  it('should use the defaults for an empty file', () => {
+    expect(parseRepositoryConfig('# nothing yet\n')).toEqual({
+      config: getDefaultRepositoryConfig(),
+      source: '.codecritics.yml',
+      errors: []
+    });
+  });
+
+  it('should report every problem and fall back to the defaults', () => {
+    const loaded = parseRepositoryConfig(`
+min_severity: urgent
+max_comments: 0
+provider: deepseek
+auto_reviews: true
+include: [1]
+`);
+
+    expect(loaded.config).toEqual(getDefaultRepositoryConfig());
+    expect(loaded.errors).toHaveLength(5);
+    expect(loaded.errors[0]).toContain('`min_severity` must be one of');
+    expect(loaded.errors[2]).toBe('`provider: deepseek` is not available on this server');
+    expect(loaded.errors[3]).toContain('Unknown setting `auto_reviews`');
+  });
+
+  it('should reject a model without a provider', () => {
+    expect(parseRepositoryConfig('model: gemini-1.5-pro').errors).toEqual([
+      '`model` requires `provider`, since model names differ between providers'
+    ]);
+  });
+
+  it('should report YAML syntax errors and non-mapping documents', () => {
+    expect(parseRepositoryConfig('include: [src').errors[0]).toMatch(/^Invalid YAML: /);
+    expect(parseRepositoryConfig('- src/**').errors).toEqual(['The file must contain a mapping of settings']);
+  });
+});
+
+describe('isPathInRepositoryScope', () => {
+  it('should apply include before exclude', () => {
+    const settings = { ...getDefaultRepositoryConfig(), include: ['src/**'], exclude: ['*.test.ts'] };
+
+    expect(isPathInRepositoryScope('src/app.ts', settings)).toBe(true);
+    expect(isPathInRepositoryScope('src/app.test.ts', settings)).toBe(false);
+    expect(isPathInRepositoryScope('docs/app.ts', settings)).toBe(false);
+    expect(isPathInRepositoryScope('docs/app.ts', getDefaultRepositoryConfig())).toBe(true);
+  });
+});
+
+describe('resolvePathSettings', () => {
+  const settings = {
+    ...getDefaultRepositoryConfig(),
+    minSeverity: 'medium' as const,
+    instructions: 'Be brief.',
+    rules: [
+      { paths: ['src/**'], focus: ['readability'] },
+      { paths: ['src/payments/**'], minSeverity: 'low' as const, instructions: 'Money is in cents.' },
+      { paths: ['src/payments/fixtures/**'], review: false }
+    ]
+  };
+
+  it('should apply the last matching rule over the repository settings', () => {
+    expect(resolvePathSettings('src/payments/charge.ts', settings)).toEqual({
+      review: true,
+      minSeverity: 'low',
+      focus: [],
+      instructions: 'Be brief.\n\nMoney is in cents.'
+    });
+    expect(resolvePathSettings('src/app.ts', settings)).toEqual({
+      review: true,
+      minSeverity: 'medium',
+      focus: ['readability'],
+      instructions: 'Be brief.'
+    });
+    expect(resolvePathSettings('README.md', settings).focus).toEqual([]);
+  });
+
+  it('should leave files of disabled rules out of scope', () => {
+    expect(isPathInRepositoryScope('src/payments/fixtures/card.json', settings)).toBe(false);
+    expect(isPathInRepositoryScope('src/payments/charge.ts', settings)).toBe(true);
+  });
+});
+
+describe('RepositoryConfigLoader', () => {
+  it('should read the file from the base branch of a pull request', async () => {
+    const githubService = {
+      getPullRequestBaseRef: vi.fn().mockResolvedValue('main'),
+      getFileContent: vi.fn().mockResolvedValue('min_severity: medium')
+    } as unknown as GitHubService;
+
+    const loaded = await new RepositoryConfigLoader(githubService, mockLogger).loadForPullRequest('octo', 'app', 7);
+
+    expect(githubService.getFileContent).toHaveBeenCalledWith('octo', 'app', '.codecritics.yml', 'main');
+    expect(loaded.config.minSeverity).toBe('medium');
+  });
+
+  it('should use the defaults when the repository has no file', async () => {
+    const githubService = {
+      getFileContent: vi.fn().mockResolvedValue(null)
+    } as unknown as GitHubService;
+
+    const loaded = await new RepositoryConfigLoader(githubService, mockLogger).load('octo', 'app', 'main');
+
+    expect(loaded).toEqual({ config: getDefaultRepositoryConfig(), errors: [], gitAttributes: [] });
+  });
+});
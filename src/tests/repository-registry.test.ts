@@ -0,0 +1,68 @@
+/**
+ * Unit tests for RepositoryRegistry
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RepositoryRegistry } from '../services/repository-registry';
+import { MemoryStateStore } from '../utils/state-store';
+import { Logger } from '../utils/logger';
+import { EnabledRepository } from '../types';
+
+vi.mock('../utils/config', () => ({
+  default: {
+    GITHUB_AUTH_MODE: 'app'
+  }
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+describe('RepositoryRegistry', () => {
+  it('should enable and disable repositories', async () => {
+    const registry = new RepositoryRegistry(new MemoryStateStore<EnabledRepository>(), mockLogger);
+
+    await registry.enable(1, ['owner/app', 'owner/lib']);
+    await registry.disable(['owner/lib']);
+
+    expect(await registry.isEnabled('owner/app')).toBe(true);
+    expect(await registry.isEnabled('Owner/App')).toBe(true);
+    expect(await registry.isEnabled('owner/lib')).toBe(false);
+    expect((await registry.list()).map(repository => repository.fullName)).toEqual(['owner/app']);
+  });
+
+  it('should remove all repositories of an installation', async () => {
+    const registry = new RepositoryRegistry(new MemoryStateStore<EnabledRepository>(), mockLogger);
+    await registry.enable(1, ['owner/app', 'owner/lib']);
+    await registry.enable(2, ['other/app']);
+
+    const removed = await registry.removeInstallation(1);
+
+    expect(removed).toEqual(['owner/app', 'owner/lib']);
+    expect((await registry.list()).map(repository => repository.fullName)).toEqual(['other/app']);
+  });
+
+  it('should enable and record repositories installed before the registry knew of them', async () => {
+    const lookup = vi.fn().mockImplementation(async (owner: string) => owner === 'owner' ? 7 : undefined);
+    const registry = new RepositoryRegistry(new MemoryStateStore<EnabledRepository>(), mockLogger, true, lookup);
+
+    expect(await registry.isEnabled('webhook/app', 3)).toBe(true);
+    expect(await registry.isEnabled('owner/app')).toBe(true);
+    expect(await registry.isEnabled('stranger/app')).toBe(false);
+
+    expect(await registry.list()).toMatchObject([
+      { fullName: 'owner/app', installationId: 7 },
+      { fullName: 'webhook/app', installationId: 3 }
+    ]);
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should enable every repository when not enforced', async () => {
+    const registry = new RepositoryRegistry(new MemoryStateStore<EnabledRepository>(), mockLogger, false);
+
+    expect(await registry.isEnabled('owner/app')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for ReviewProgress
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ReviewProgress } from '../services/review-progress';
+import { GitHubService } from '../services/github';
+import { Logger } from '../utils/logger';
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+const target = { owner: 'owner', repo: 'app', pullNumber: 7, triggerCommentId: 100, triggerReactionId: 200 };
+
+function createGitHubService() {
+  return {
+    createPRComment: vi.fn().mockResolvedValue(300),
+    updatePRComment: vi.fn().mockResolvedValue(undefined),
+    addCommentReaction: vi.fn().mockResolvedValue(201),
+    removeCommentReaction: vi.fn().mockResolvedValue(undefined)
+  };
+}
+
+describe('ReviewProgress', () => {
+  it('should keep a single progress comment updated and swap the reaction on success', async () => {
+    const githubService = createGitHubService();
+    const progress = new ReviewProgress(githubService as unknown as GitHubService, target, true, mockLogger);
+
+    await progress.update('Fetching pull request diff');
+    await progress.update('Analyzing changes');
+    await progress.succeeded({ status: 'completed', comments: [{ path: 'a.ts', line: 1, body: 'x' }] });
+
+    expect(githubService.createPRComment).toHaveBeenCalledTimes(1);
+    expect(githubService.updatePRComment).toHaveBeenCalledTimes(2);
+    expect(githubService.updatePRComment.mock.calls[0][3]).toContain('- ✔️ Fetching pull request diff\n- ▶️ Analyzing changes');
+    expect(githubService.updatePRComment.mock.calls[1][3]).toContain('✅ **Review finished** with 1 comment');
+    expect(githubService.removeCommentReaction).toHaveBeenCalledWith('owner', 'app', 100, 200);
+    expect(githubService.addCommentReaction).toHaveBeenCalledWith('owner', 'app', 100, 'rocket');
+  });
+
+  it('should only react when progress comments are disabled, and never throw', async () => {
+    const githubService = createGitHubService();
+    githubService.removeCommentReaction.mockRejectedValue(new Error('Not Found'));
+    const progress = new ReviewProgress(githubService as unknown as GitHubService, target, false, mockLogger);
+
+    await progress.update('Fetching pull request diff');
+    await expect(progress.failed()).resolves.toBeUndefined();
+
+    expect(githubService.createPRComment).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith('Could not remove reaction', expect.any(Object));
+    expect(githubService.addCommentReaction).toHaveBeenCalledWith('owner', 'app', 100, 'confused');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for the dry-run review publisher
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DryRunPublisher, renderPreviewMarkdown } from '../services/review-publisher';
+
+describe('DryRunPublisher', () => {
+  it('should capture the review, comments and statuses', async () => {
+    const publisher = new DryRunPublisher();
+
+    await publisher.setCommitStatusForSha('owner', 'app', 'abc123', 'pending', 'Review in progress...');
+    await publisher.createReview('owner', 'app', 7, {
+      body: 'Code Critic AI Review Summary:',
+      event: 'COMMENT',
+      comments: [{ path: 'src/app.ts', line: 3, body: 'Possible null dereference' }]
+    });
+    await publisher.setCommitStatus('owner', 'app', 7, 'failure', 'Code review completed with suggestions.');
+
+    expect(publisher.preview).toEqual({
+      review: {
+        body: 'Code Critic AI Review Summary:',
+        event: 'COMMENT',
+        comments: [{ path: 'src/app.ts', line: 3, body: 'Possible null dereference' }]
+      },
+      comments: [],
+      statuses: [
+        { status: 'pending', description: 'Review in progress...', sha: 'abc123' },
+        { status: 'failure', description: 'Code review completed with suggestions.' }
+      ]
+    });
+  });
+
+  it('should render the preview as markdown', async () => {
+    const publisher = new DryRunPublisher();
+    await publisher.createReview('owner', 'app', 7, {
+      body: 'Code Critic AI Review Summary:',
+      event: 'COMMENT',
+      comments: [{ path: 'src/app.ts', line: 3, body: 'Possible null dereference' }]
+    });
+    await publisher.setCommitStatusForSha('owner', 'app', 'abc123', 'failure', 'Code review completed with suggestions.');
+
+    const markdown = renderPreviewMarkdown(publisher.preview);
+
+    expect(markdown).toContain('(dry run)');
+    expect(markdown).toContain('#### `src/app.ts` line 3\n\nPossible null dereference');
+    expect(markdown).toContain('**Commit status:** failure — Code review completed with suggestions.');
+    expect(renderPreviewMarkdown({ comments: [], statuses: [] })).toContain('The review produced no output.');
+  });
+});
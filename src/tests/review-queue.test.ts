@@ -0,0 +1,198 @@
+/**
+ * Unit tests for ReviewQueue
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ReviewQueue } from '../services/review-queue';
+import { MemoryStateStore } from '../utils/state-store';
+import { Logger } from '../utils/logger';
+import { ReviewJob } from '../types';
+
+vi.mock('../utils/config', () => ({
+  default: {
+    STATE_STORE: 'memory',
+    DATA_DIR: '/tmp/code-critics-test',
+    REVIEW_QUEUE_CONCURRENCY: 2,
+    REVIEW_QUEUE_MAX_ATTEMPTS: 3,
+    REVIEW_QUEUE_BACKOFF_MS: 1
+  }
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  error: vi.fn(),
+  warn: vi.fn(),
+  debug: vi.fn()
+} as unknown as Logger;
+
+const request = { owner: 'owner', repo: 'repo', pullNumber: 1 };
+
+async function waitForStatus(queue: ReviewQueue, id: string, status: ReviewJob['status']): Promise<ReviewJob> {
+  for (let i = 0; i < 200; i++) {
+    const job = await queue.getJob(id);
+    if (job?.status === status) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} never reached status ${status}`);
+}
+
+describe('ReviewQueue', () => {
+  let queue: ReviewQueue;
+
+  afterEach(() => {
+    queue?.stop();
+  });
+
+  it('should run enqueued jobs through the handler', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger);
+
+    const job = await queue.enqueue(request);
+    const completed = await waitForStatus(queue, job.id, 'completed');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].request).toEqual(request);
+    expect(completed.attempts).toBe(1);
+  });
+
+  it('should retry failed jobs and dead-letter them after max attempts', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('AI unavailable'));
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger, { maxAttempts: 2 });
+
+    const job = await queue.enqueue(request);
+    const dead = await waitForStatus(queue, job.id, 'dead');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(dead.lastError).toBe('AI unavailable');
+    expect(await queue.listDeadLetters()).toHaveLength(1);
+  });
+
+  it('should keep fields written while the job ran in the dead-letter entry', async () => {
+    const store = new MemoryStateStore<ReviewJob>();
+    const handler = vi.fn(async (job: ReviewJob) => {
+      await store.set(job.id, { ...job, supersededBy: 'newer-job' });
+      throw new Error('AI unavailable');
+    });
+    queue = new ReviewQueue(store, handler, mockLogger, { maxAttempts: 1 });
+
+    const job = await queue.enqueue(request);
+    const dead = await waitForStatus(queue, job.id, 'dead');
+
+    expect(dead).toMatchObject({ supersededBy: 'newer-job', lastError: 'AI unavailable' });
+  });
+
+  it('should succeed on a retry after a transient failure', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce(undefined);
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger);
+
+    const job = await queue.enqueue(request);
+    const completed = await waitForStatus(queue, job.id, 'completed');
+
+    expect(completed.attempts).toBe(2);
+    expect(completed.lastError).toBeUndefined();
+  });
+
+  it('should resume jobs that were running when the process stopped', async () => {
+    const store = new MemoryStateStore<ReviewJob>();
+    const now = new Date().toISOString();
+    await store.set('interrupted', {
+      id: 'interrupted',
+      request,
+      status: 'running',
+      attempts: 1,
+      maxAttempts: 3,
+      runAfter: Date.now(),
+      createdAt: now,
+      updatedAt: now
+    });
+
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue = new ReviewQueue(store, handler, mockLogger);
+    await queue.start();
+
+    const completed = await waitForStatus(queue, 'interrupted', 'completed');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(completed.attempts).toBe(2);
+  });
+
+  it('should requeue dead-lettered jobs', async () => {
+    const handler = vi.fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue(undefined);
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger, { maxAttempts: 1 });
+
+    const job = await queue.enqueue(request);
+    await waitForStatus(queue, job.id, 'dead');
+    await queue.requeueDeadLetter(job.id);
+
+    await waitForStatus(queue, job.id, 'completed');
+    expect(await queue.getStats()).toMatchObject({ completed: 1, dead: 0 });
+  });
+
+  it('should cancel pending jobs superseded by a newer push', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger);
+    const cancelled = vi.fn();
+    queue.on('cancelled', cancelled);
+
+    const first = await queue.enqueue({ ...request, headSha: 'aaa' }, { supersede: true, delayMs: 60000 });
+    const second = await queue.enqueue({ ...request, headSha: 'bbb' }, { supersede: true });
+
+    await waitForStatus(queue, second.id, 'completed');
+    const superseded = await queue.getJob(first.id);
+
+    expect(superseded).toMatchObject({ status: 'cancelled', supersededBy: second.id });
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ id: first.id }));
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].request.headSha).toBe('bbb');
+  });
+
+  it('should abort running jobs superseded by a newer push without retrying', async () => {
+    const handler = vi.fn((job: ReviewJob, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+      if (job.request.headSha === 'bbb') {
+        resolve();
+        return;
+      }
+      signal.addEventListener('abort', () => reject(signal.reason));
+    }));
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger);
+
+    const first = await queue.enqueue({ ...request, headSha: 'aaa' }, { supersede: true });
+    await waitForStatus(queue, first.id, 'running');
+    const second = await queue.enqueue({ ...request, headSha: 'bbb' }, { supersede: true });
+
+    const cancelled = await waitForStatus(queue, first.id, 'cancelled');
+    await waitForStatus(queue, second.id, 'completed');
+
+    expect(cancelled.attempts).toBe(1);
+    expect(cancelled.supersededBy).toBe(second.id);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not supersede queued follow-up answers', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger);
+
+    const followUp = await queue.enqueue({ ...request, kind: 'follow_up', rootCommentId: 7 }, { delayMs: 60000 });
+    const review = await queue.enqueue({ ...request, headSha: 'bbb' }, { supersede: true });
+
+    await waitForStatus(queue, review.id, 'completed');
+    expect(await queue.getJob(followUp.id)).toMatchObject({ status: 'pending' });
+  });
+
+  it('should delay debounced jobs', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    queue = new ReviewQueue(new MemoryStateStore<ReviewJob>(), handler, mockLogger);
+
+    const job = await queue.enqueue(request, { delayMs: 60000 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'pending' });
+    expect(job.runAfter - Date.parse(job.createdAt)).toBe(60000);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Unit tests for the file-backed state store
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStateStore } from '../utils/state-store';
+
+vi.mock('../utils/config', () => ({
+  default: {}
+}));
+
+describe('FileStateStore', () => {
+  it('should retry loading after a failed load', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'code-critics-'));
+    const filePath = path.join(dir, 'state.json');
+    await fs.writeFile(filePath, '{ not json', 'utf8');
+    const store = new FileStateStore<number>(filePath);
+
+    await expect(store.get('a')).rejects.toThrow();
+
+    await fs.writeFile(filePath, JSON.stringify({ a: 1 }), 'utf8');
+    expect(await store.get('a')).toBe(1);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
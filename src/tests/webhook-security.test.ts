@@ -0,0 +1,79 @@
+/**
+ * Unit tests for webhook signature verification
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  computeWebhookSignature,
+  findMatchingWebhookSecret,
+  parseWebhookBody,
+  secretFingerprint,
+  verifyWebhookSignature
+} from '../utils/webhook-security';
+
+vi.mock('../utils/config', () => ({
+  default: {
+    WEBHOOK_SECRET: 'current-secret',
+    WEBHOOK_SECRETS: ['current-secret', 'previous-secret']
+  }
+}));
+
+describe('webhook security', () => {
+  // Unicode escapes and spacing are lost when a parsed body is re-serialized
+  const rawBody = Buffer.from('{"action":"opened","title":"caf\\u00e9",  "number": 1}');
+
+  describe('verifyWebhookSignature', () => {
+    it('should verify a signature over the raw body', () => {
+      const signature = computeWebhookSignature(rawBody, 'current-secret');
+
+      expect(verifyWebhookSignature(rawBody, signature)).toBe(true);
+    });
+
+    it('should not verify a signature over a re-serialized body', () => {
+      const signature = computeWebhookSignature(rawBody, 'current-secret');
+      const reserialized = JSON.stringify(JSON.parse(rawBody.toString('utf8')));
+
+      expect(verifyWebhookSignature(reserialized, signature)).toBe(false);
+    });
+
+    it('should reject malformed signatures', () => {
+      expect(verifyWebhookSignature(rawBody, '')).toBe(false);
+      expect(verifyWebhookSignature(rawBody, 'sha1=abc')).toBe(false);
+    });
+  });
+
+  describe('findMatchingWebhookSecret', () => {
+    it('should report which active secret matched', () => {
+      const signature = computeWebhookSignature(rawBody, 'previous-secret');
+
+      expect(findMatchingWebhookSecret(rawBody, signature)).toEqual({
+        index: 1,
+        fingerprint: secretFingerprint('previous-secret')
+      });
+    });
+
+    it('should return null when no active secret matches', () => {
+      const signature = computeWebhookSignature(rawBody, 'retired-secret');
+
+      expect(findMatchingWebhookSecret(rawBody, signature)).toBeNull();
+    });
+
+    it('should return null when no secrets are configured', () => {
+      const signature = computeWebhookSignature(rawBody, 'current-secret');
+
+      expect(findMatchingWebhookSecret(rawBody, signature, [])).toBeNull();
+    });
+  });
+
+  describe('parseWebhookBody', () => {
+    it('should parse JSON bodies', () => {
+      expect(parseWebhookBody(rawBody)).toMatchObject({ action: 'opened', title: 'café' });
+    });
+
+    it('should parse form-encoded bodies', () => {
+      const body = Buffer.from(`payload=${encodeURIComponent('{"action":"created"}')}`);
+
+      expect(parseWebhookBody(body, 'application/x-www-form-urlencoded')).toEqual({ action: 'created' });
+    });
+  });
+});
@@ -3,8 +3,20 @@ export interface AIChatMessage {
   content: string;
 }
 
+/**
+ * Per-request options for AI completions
+ */
+export interface AIRequestOptions {
+  /** Aborts the request, e.g. when the review is superseded by a newer push */
+  signal?: AbortSignal;
+  /** Model to use instead of the provider's default */
+  model?: string;
+}
+
 export interface AIClient {
-  generateCompletion(messages: AIChatMessage[]): Promise<string>;
+  readonly provider: string;
+  generateCompletion(messages: AIChatMessage[], options?: AIRequestOptions): Promise<string>;
+  checkHealth(options?: AIRequestOptions): Promise<void>;
 }
 
 /**
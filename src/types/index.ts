@@ -47,6 +47,10 @@ export interface PullRequestData {
   number: number;
   title: string;
   body: string;
+  headSha: string;
+  baseSha: string;
+  /** Branch the pull request merges into */
+  baseRef: string;
   diff: string;
   files: Array<{
     filename: string;
@@ -59,17 +63,446 @@ export interface PullRequestData {
 
 export interface ReviewComment {
   path: string;
+  /** Line in the new file; 0 if the AI's location could not be read */
   line: number;
   body: string;
   side?: 'LEFT' | 'RIGHT';
+  /** Stable finding ID, referenced by `@codecritics ignore <finding-id>` */
+  id?: string;
+  /** Severity reported by the AI */
+  severity?: FindingSeverity;
+}
+
+/**
+ * Severity of a review finding, from lowest to highest
+ */
+export type FindingSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Comment in a pull request review thread
+ */
+export interface ReviewThreadComment {
+  id: number;
+  /** Login of the comment author */
+  author: string;
+  body: string;
+  createdAt: string;
+  path: string;
+  line?: number;
+  /** Diff hunk the thread is attached to */
+  diffHunk: string;
+}
+
+/**
+ * How a file changed in a diff
+ */
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+/**
+ * A line of a diff hunk
+ */
+export interface DiffLine {
+  /** `no_newline` is the "\ No newline at end of file" marker of the line before it */
+  kind: 'context' | 'added' | 'removed' | 'no_newline';
+  /** Line text without the leading +, - or space */
+  content: string;
+  /** Line number in the old file, for context and removed lines */
+  oldNumber?: number;
+  /** Line number in the new file, for context and added lines */
+  newNumber?: number;
+}
+
+/**
+ * A hunk of a unified diff
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the range, usually the enclosing function */
+  section: string;
+  lines: DiffLine[];
+}
+
+/**
+ * A file of a unified diff
+ */
+export interface DiffFile {
+  /** Path before the change; null for added files */
+  oldPath: string | null;
+  /** Path after the change; null for deleted files */
+  newPath: string | null;
+  status: DiffFileStatus;
+  /** Binary changes have no hunks */
+  binary: boolean;
+  /** File modes, present when a file is added or deleted or its mode changed */
+  oldMode?: string;
+  newMode?: string;
+  /** Similarity of renamed and copied files, in percent */
+  similarity?: number;
+  /** Header lines from `diff --git` up to the first hunk, kept verbatim */
+  headers: string[];
+  hunks: DiffHunk[];
+}
+
+/**
+ * New-side lines of a diff hunk that review comments can be attached to
+ */
+export interface CommentableHunk {
+  /** First and last new-side line covered by the hunk */
+  newStart: number;
+  newEnd: number;
+  /** Added and context lines */
+  commentable: number[];
+  /** Added lines only */
+  changed: number[];
+}
+
+/**
+ * Pull request review as submitted to GitHub
+ */
+export interface ReviewSubmission {
+  /** Commit the comments refer to; defaults to the pull request head */
+  commitId?: string;
+  body: string;
+  event: 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+  comments: ReviewComment[];
+}
+
+/**
+ * Everything a dry-run review would have posted to GitHub
+ */
+export interface ReviewPreview {
+  /** Review with inline comments that would have been created */
+  review?: ReviewSubmission;
+  /** Pull request comments that would have been posted */
+  comments: string[];
+  /** Commit statuses that would have been set */
+  statuses: Array<{ status: ReviewStatus; description: string; sha?: string; }>;
 }
 
 export interface ReviewRequest {
+  /** What the job does; jobs persisted before follow-ups were queued have no kind and are reviews */
+  kind?: 'review' | 'follow_up';
   owner: string;
   repo: string;
   pullNumber: number;
   diffUrl?: string;
   isManualTrigger?: boolean;
+  /** X-GitHub-Delivery ID of the webhook that triggered the review */
+  deliveryId?: string;
+  /** Head commit the review was requested for, when known */
+  headSha?: string;
+  /** GitHub App installation the review runs as (app authentication only) */
+  installationId?: number;
+  /** Extra instructions narrowing what the review should focus on */
+  focus?: string;
+  /** AI provider override for this review */
+  provider?: AIProvider;
+  /** Produce a preview instead of posting to GitHub */
+  dryRun?: boolean;
+  /** Post the rendered dry-run preview as a single PR comment (used for mentions) */
+  postPreview?: boolean;
+  /** Only review changed files matching these paths or glob patterns */
+  paths?: string[];
+  /** PR comment that requested the review, acknowledged with reactions */
+  triggerCommentId?: number;
+  /** 👀 reaction added to the trigger comment, replaced once the review finishes */
+  triggerReactionId?: number;
+  /** Review thread to answer (follow-up jobs) */
+  rootCommentId?: number;
+}
+
+export type AIProvider = 'gemini' | 'deepseek';
+
+/**
+ * Reactions the bot uses to acknowledge comments
+ */
+export type CommentReaction = 'eyes' | 'rocket' | 'confused';
+
+/**
+ * Repository permission of a user, from lowest to highest
+ */
+export type CollaboratorPermission = 'none' | 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+/**
+ * Per-run options for CodeReviewService.conductReview
+ */
+export interface ReviewOptions {
+  /** Post the failure comment and error status when the review fails (default true) */
+  reportFailure?: boolean;
+  /** Head commit the review was requested for; a newer head discards the review */
+  headSha?: string;
+  /** Aborts the review, e.g. when a newer push supersedes it */
+  signal?: AbortSignal;
+  /** Extra instructions narrowing what the review should focus on */
+  focus?: string;
+  /** Capture what would be posted instead of writing to GitHub */
+  dryRun?: boolean;
+  /** Only review changed files matching these paths or glob patterns */
+  paths?: string[];
+  /** Finding IDs that must not be reported again */
+  ignoredFindings?: string[];
+  /** Called when the review enters a new stage */
+  onProgress?: (stage: string) => Promise<void>;
+  /** Head reviewed last time; only commits pushed since then are reviewed when history is linear */
+  sinceSha?: string;
+  /** Settings from the repository's `.codecritics.yml` */
+  repositoryConfig?: LoadedRepositoryConfig;
+}
+
+/**
+ * Review settings a repository can set in `.codecritics.yml`
+ */
+export interface RepositoryConfig {
+  /** Only review files matching these globs; all files when empty */
+  include: string[];
+  /** Never review files matching these globs */
+  exclude: string[];
+  /** Findings below this severity are not posted */
+  minSeverity: FindingSeverity;
+  /** Areas the review should pay extra attention to */
+  focus: string[];
+  /** Appended to the system prompt */
+  instructions?: string;
+  /** Most findings posted per review, highest severity first */
+  maxComments?: number;
+  /** AI provider, overriding AI_PROVIDER */
+  provider?: AIProvider;
+  /** Model of the provider */
+  model?: string;
+  /** Review on every push; when false, only on `@codecritics review` */
+  autoReview: boolean;
+  /** Settings for parts of the repository; the last rule matching a file wins */
+  rules: PathRule[];
+}
+
+/**
+ * Review settings for the files matching a set of globs
+ */
+export interface PathRule {
+  paths: string[];
+  /** Added to the repository's instructions */
+  instructions?: string;
+  /** Replaces the repository's minimum severity */
+  minSeverity?: FindingSeverity;
+  /** Replaces the repository's focus areas */
+  focus?: string[];
+  /** False to leave matching files out of reviews */
+  review?: boolean;
+}
+
+/**
+ * Review settings that apply to one changed file
+ */
+export interface PathReviewSettings {
+  review: boolean;
+  minSeverity: FindingSeverity;
+  focus: string[];
+  instructions?: string;
+}
+
+/**
+ * Repository settings as loaded from the base branch
+ */
+export interface LoadedRepositoryConfig {
+  config: RepositoryConfig;
+  /** Path of the file the settings came from; undefined when the repository has none */
+  source?: string;
+  /** Problems found in the file; the defaults are used when there are any */
+  errors: string[];
+  /** Rules of the repository's `.gitattributes` */
+  gitAttributes?: GitAttributeRule[];
+}
+
+/**
+ * A line of a `.gitattributes` file
+ */
+export interface GitAttributeRule {
+  pattern: string;
+  /** true for `attr`, false for `-attr`, null for `!attr`, otherwise the value of `attr=value` */
+  attributes: Record<string, string | boolean | null>;
+}
+
+/**
+ * A changed file left out of a review because it is not written by hand
+ */
+export interface ExcludedFile {
+  path: string;
+  /** Why the file was left out, e.g. "lockfile" */
+  reason: string;
+}
+
+/**
+ * An issue a pull request says it fixes
+ */
+export interface LinkedIssue {
+  number: number;
+  title: string;
+  body: string;
+}
+
+/**
+ * What a pull request claims to do, as written by its author
+ */
+export interface PullRequestIntent {
+  title: string;
+  body: string;
+  /** Commit messages, oldest first */
+  commitMessages: string[];
+  linkedIssues: LinkedIssue[];
+}
+
+/**
+ * A file that is not part of a change but related to it through imports
+ */
+export interface RelatedFile {
+  path: string;
+  /** 'imported' for modules a changed file imports, 'importer' for files that import a changed file */
+  relation: 'imported' | 'importer';
+  /** Changed files the file is related to */
+  changedPaths: string[];
+  /** Higher is more relevant */
+  score: number;
+}
+
+/**
+ * Outcome of a review run, stored on the review job
+ */
+export interface ReviewResult {
+  status: 'completed' | 'skipped';
+  /** AI provider that produced the review */
+  provider?: string;
+  comments: ReviewComment[];
+  skipReason?: string;
+  /** Captured output of a dry run */
+  preview?: ReviewPreview;
+  /** Head commit the review ran against */
+  reviewedSha?: string;
+  /** Commit the review was incremental from, if only newer commits were reviewed */
+  incrementalFrom?: string;
+  /**
+   * The review was not narrowed to some paths with `@codecritics review <paths>`.
+   * Files left out by config, generated-file or file type rules still count as
+   * covered, since every later review leaves them out too.
+   */
+  fullScope?: boolean;
+}
+
+export type ReviewJobStatus = 'pending' | 'running' | 'completed' | 'dead' | 'cancelled';
+
+/**
+ * A queued review, persisted so it survives restarts
+ */
+export interface ReviewJob {
+  id: string;
+  request: ReviewRequest;
+  status: ReviewJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Epoch milliseconds before which the job must not run */
+  runAfter: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  lastError?: string;
+  /** ID of the job for a newer head commit that cancelled this one */
+  supersededBy?: string;
+  /** Result of the successful attempt */
+  result?: ReviewResult;
+}
+
+/**
+ * Review job as reported by GET /api/reviews/:id
+ */
+export interface ReviewSummary {
+  id: string;
+  status: ReviewJobStatus;
+  repository: string;
+  pullNumber: number;
+  focus?: string;
+  provider?: string;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  /** Time from the last attempt starting to the job finishing */
+  durationMs?: number;
+  comments: ReviewComment[];
+  skipReason?: string;
+  error?: string;
+  supersededBy?: string;
+  dryRun: boolean;
+  preview?: ReviewPreview;
+}
+
+export type DeliveryOutcome = 'processing' | 'queued' | 'ignored' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Ledger entry for a webhook delivery
+ */
+export interface DeliveryRecord {
+  id: string;
+  event: string;
+  outcome: DeliveryOutcome;
+  detail?: string;
+  jobId?: string;
+  receivedAt: string;
+  updatedAt: string;
+  /** Epoch milliseconds after which the delivery ID is forgotten */
+  expiresAt: number;
+}
+
+/**
+ * Repository the GitHub App is installed on
+ */
+export interface EnabledRepository {
+  /** Full repository name (owner/repo) */
+  fullName: string;
+  installationId: number;
+  enabledAt: string;
+}
+
+/**
+ * Per-pull-request review state: settings changed through `@codecritics` commands and the last reviewed head
+ */
+export interface PullRequestSettings {
+  /** Full repository name (owner/repo) */
+  repository: string;
+  pullNumber: number;
+  /** Head commit of the last posted review, the base of the next incremental review */
+  lastReviewedSha?: string;
+  /** Automatic reviews on push are paused; explicit review commands still run */
+  paused: boolean;
+  /** Finding IDs that are no longer reported */
+  ignoredFindings: string[];
+  updatedAt: string;
+  /** Login of the user who last changed the settings */
+  updatedBy?: string;
+}
+
+/**
+ * Command parsed from an `@codecritics` mention
+ */
+export type CommentCommand =
+  | { name: 'review'; paths: string[]; focus?: string; dryRun: boolean; }
+  | { name: 'pause'; }
+  | { name: 'resume'; }
+  | { name: 'ignore'; findingId: string; }
+  | { name: 'config'; }
+  | { name: 'help'; }
+  | { name: 'invalid'; error: string; };
+
+/**
+ * Result reported by a webhook event handler
+ */
+export interface WebhookHandlerResult {
+  outcome: Extract<DeliveryOutcome, 'queued' | 'ignored' | 'completed'>;
+  message: string;
+  jobId?: string;
 }
 
 export interface CodeReviewResult {
@@ -105,4 +538,25 @@ export interface GitHubCheckRun {
   };
 }
 
-export type ReviewStatus = 'pending' | 'success' | 'failure' | 'error';
\ No newline at end of file
+export type ReviewStatus = 'pending' | 'success' | 'failure' | 'error';
+
+export type HealthStatus = 'ok' | 'degraded' | 'error';
+
+/**
+ * Health of a single component reported by /readyz
+ */
+export interface ComponentHealth {
+  status: HealthStatus;
+  message?: string;
+  latencyMs?: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Readiness report returned by /readyz
+ */
+export interface ReadinessReport {
+  status: HealthStatus;
+  checkedAt: string;
+  components: Record<string, ComponentHealth>;
+}
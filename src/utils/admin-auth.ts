@@ -0,0 +1,43 @@
+import * as crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Logger } from './logger';
+import config from './config';
+
+const logger = new Logger();
+
+/**
+ * Constant-time comparison of a presented token against the configured one
+ *
+ * Both values are hashed first so their lengths never leak through timing.
+ *
+ * @param presented - Token sent by the client
+ * @param expected - Configured admin token
+ * @returns True if the tokens match
+ */
+export function adminTokenMatches(presented: string, expected: string): boolean {
+  const presentedDigest = crypto.createHash('sha256').update(presented).digest();
+  const expectedDigest = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(presentedDigest, expectedDigest);
+}
+
+/**
+ * Express middleware protecting the admin API with ADMIN_API_TOKEN
+ *
+ * Clients authenticate with `Authorization: Bearer <token>`. The admin API is
+ * disabled entirely when no token is configured.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+  if (!config.ADMIN_API_TOKEN) {
+    res.status(403).json({ error: 'Forbidden', message: 'Admin API is disabled. Set ADMIN_API_TOKEN to enable it.' });
+    return;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match || !adminTokenMatches(match[1].trim(), config.ADMIN_API_TOKEN)) {
+    logger.warn('Rejected admin API request', { path: req.path, ip: req.ip });
+    res.status(401).json({ error: 'Unauthorized', message: 'Invalid or missing admin token' });
+    return;
+  }
+
+  next();
+}
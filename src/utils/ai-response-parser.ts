@@ -1,5 +1,29 @@
-import { ReviewComment } from '../types';
+import * as crypto from 'crypto';
+import { FindingSeverity, ReviewComment } from '../types';
 import { Logger } from './logger';
+import { COMMENT_COMMANDS, FINDING_SEVERITIES } from './constants';
+
+/**
+ * Derive a stable ID for a finding so it can be ignored with `@codecritics ignore <id>`
+ *
+ * The AI words the same finding differently on every run, so the description
+ * is left out: the ID covers the file, the issue type and the content of the
+ * commented line. The line number is left out too, so the ID survives
+ * unrelated edits above the finding.
+ *
+ * @param comment - Parsed review comment
+ * @param lineContent - Content of the commented line, if the diff shows it
+ * @returns Short hex ID
+ */
+export function createFindingId(comment: Pick<ReviewComment, 'path' | 'body'>, lineContent = ''): string {
+  const issueType = /\*\*Issue Type\*\*:(.*)/.exec(comment.body)?.[1] ?? '';
+  const normalize = (text: string): string => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  return crypto
+    .createHash('sha256')
+    .update(`${comment.path}\n${normalize(issueType)}\n${normalize(lineContent)}`)
+    .digest('hex')
+    .slice(0, COMMENT_COMMANDS.FINDING_ID_LENGTH);
+}
 
 /**
  * Utility class for parsing AI review responses into structured comments
@@ -22,7 +46,7 @@ export class AIResponseParser {
 
     const comments: ReviewComment[] = [];
     const lines = aiResponse.split('\n');
-    let currentComment: Partial<ReviewComment & { 
+    let currentComment: Partial<Omit<ReviewComment, 'severity'> & { 
       issueType: string; 
       description: string; 
       severity: string; 
@@ -37,7 +61,7 @@ export class AIResponseParser {
       // Start of a new comment block
       if (trimmedLine.startsWith('**Location**:')) {
         // If we were already parsing a comment, save it if it has the minimum required fields
-        if (parsingComment && currentComment.path && currentComment.line && currentComment.description) {
+        if (parsingComment && currentComment.path && currentComment.line !== undefined && currentComment.description) {
           comments.push(this.createCommentFromParsedData(currentComment));
         }
         
@@ -54,15 +78,15 @@ export class AIResponseParser {
           currentComment.line = parseInt(locationParts[1].trim(), 10);
           
           // Handle NaN for line number
-          if (isNaN(currentComment.line)) {
+          if (isNaN(currentComment.line) || currentComment.line < 1) {
             this.logger.warn('Invalid line number in AI response', { location });
-            currentComment.line = 1; // Default to line 1 if parsing fails
+            currentComment.line = 0; // Unknown line, reported in the review summary
           }
         } else {
           // Handle malformed location
           this.logger.warn('Malformed location in AI response', { location });
           currentComment.path = location.trim();
-          currentComment.line = 1; // Default to line 1
+          currentComment.line = 0; // Unknown line, reported in the review summary
         }
       } 
       // Parse other fields
@@ -109,7 +133,7 @@ export class AIResponseParser {
    * @param data - Partially parsed comment data
    * @returns Fully formatted review comment
    */
-  private createCommentFromParsedData(data: Partial<ReviewComment & { 
+  private createCommentFromParsedData(data: Partial<Omit<ReviewComment, 'severity'> & { 
     issueType: string; 
     description: string; 
     severity: string; 
@@ -117,7 +141,7 @@ export class AIResponseParser {
   }>): ReviewComment {
     // Validate and provide defaults for required fields
     const path = data.path || 'unknown';
-    const line = data.line || 1;
+    const line = data.line ?? 0;
     const issueType = data.issueType || 'Code Issue';
     const description = data.description || 'No description provided';
     const severity = data.severity || 'Medium';
@@ -131,6 +155,10 @@ export class AIResponseParser {
 
 <!-- code-critics-comment -->`;
 
-    return { path, line, body };
+    // "High", "**High**" and "High - data loss" all count as high
+    const severityName = severity.replace(/[^a-z\s]/gi, '').trim().split(/\s+/)[0].toLowerCase();
+    const knownSeverity = FINDING_SEVERITIES.find(known => known === severityName) as FindingSeverity | undefined;
+
+    return { path, line, body, ...(knownSeverity && { severity: knownSeverity }) };
   }
 }
@@ -0,0 +1,133 @@
+import { CommentCommand } from '../types';
+import { COMMENT_COMMANDS } from './constants';
+
+/**
+ * Parser for `@codecritics` commands in pull request comments
+ *
+ * The command is the rest of the line following the first mention. A bare
+ * mention requests a review, as it always has.
+ */
+
+const MENTION_PATTERN = new RegExp(`(?:^|\\s)${COMMENT_COMMANDS.MENTION}(?=\\s|$)([^\\n]*)`, 'i');
+const FINDING_ID_PATTERN = new RegExp(`^[0-9a-f]{${COMMENT_COMMANDS.FINDING_ID_LENGTH}}$`, 'i');
+const SAFE_PATH_PATTERN = /^[\w.\-/*?]+$/;
+
+/**
+ * Usage shown by `@codecritics help` and for invalid commands
+ */
+export const COMMAND_USAGE = `| Command | Description |
+| --- | --- |
+| \`${COMMENT_COMMANDS.MENTION} review [paths...]\` | Review the pull request, optionally only the given paths or globs |
+| \`${COMMENT_COMMANDS.MENTION} review --focus <topic>\` | Review with extra attention to a topic, e.g. \`--focus security\` |
+| \`${COMMENT_COMMANDS.MENTION} review --dry-run\` | Post the review as a single preview comment instead of inline comments |
+| \`${COMMENT_COMMANDS.MENTION} pause\` | Stop automatic reviews on new pushes to this pull request |
+| \`${COMMENT_COMMANDS.MENTION} resume\` | Resume automatic reviews |
+| \`${COMMENT_COMMANDS.MENTION} ignore <finding-id>\` | Stop reporting a finding on this pull request |
+| \`${COMMENT_COMMANDS.MENTION} config\` | Show the effective review settings |
+| \`${COMMENT_COMMANDS.MENTION} help\` | Show this help |`;
+
+/**
+ * Check whether a comment mentions the bot
+ *
+ * The handle must stand on its own: preceded by whitespace or the start of
+ * the comment and followed by whitespace or its end. So inline code
+ * (`` `@codecritics` ``) and other handles such as `@codecritics-bot` do not
+ * count, but a mention at the start of a line inside a fenced code block does.
+ *
+ * @param body - Comment body
+ * @returns True if the comment mentions the bot
+ */
+export function mentionsBot(body: string): boolean {
+  return MENTION_PATTERN.test(body);
+}
+
+/**
+ * Parse the command of a comment
+ *
+ * @param body - Comment body
+ * @returns The command, an `invalid` command describing the problem, or null if the bot is not mentioned
+ */
+export function parseCommentCommand(body: string): CommentCommand | null {
+  const match = MENTION_PATTERN.exec(body);
+  if (!match) {
+    return null;
+  }
+
+  let tokens: string[];
+  try {
+    tokens = tokenize(match[1]);
+  } catch (error) {
+    return { name: 'invalid', error: (error as Error).message };
+  }
+
+  // Options without a command (`@codecritics --dry-run`) apply to a review
+  const name = tokens.length === 0 || tokens[0].startsWith('--') ? 'review' : tokens.shift()!.toLowerCase();
+  const args = tokens;
+
+  switch (name) {
+    case 'review':
+      return parseReviewArgs(args);
+    case 'pause':
+    case 'resume':
+    case 'config':
+    case 'help':
+      if (args.length > 0) {
+        return { name: 'invalid', error: `\`${name}\` does not take any arguments` };
+      }
+      return { name };
+    case 'ignore':
+      if (args.length !== 1 || !FINDING_ID_PATTERN.test(args[0])) {
+        return {
+          name: 'invalid',
+          error: `\`ignore\` expects one finding ID (${COMMENT_COMMANDS.FINDING_ID_LENGTH} hex characters, shown under each review comment)`
+        };
+      }
+      return { name: 'ignore', findingId: args[0].toLowerCase() };
+    default:
+      return { name: 'invalid', error: `Unknown command \`${name}\`` };
+  }
+}
+
+function parseReviewArgs(args: string[]): CommentCommand {
+  const paths: string[] = [];
+  let focus: string | undefined;
+  let dryRun = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--focus' || arg.startsWith('--focus=')) {
+      focus = arg === '--focus' ? args[++i] : arg.slice('--focus='.length);
+      if (!focus || focus.startsWith('--')) {
+        return { name: 'invalid', error: '`--focus` expects a topic, e.g. `--focus security`' };
+      }
+      if (focus.length > COMMENT_COMMANDS.MAX_FOCUS_LENGTH) {
+        return { name: 'invalid', error: `\`--focus\` is limited to ${COMMENT_COMMANDS.MAX_FOCUS_LENGTH} characters` };
+      }
+    } else if (arg.startsWith('--')) {
+      return { name: 'invalid', error: `Unknown option \`${arg}\` for \`review\`` };
+    } else if (!SAFE_PATH_PATTERN.test(arg) || arg.split('/').includes('..')) {
+      return { name: 'invalid', error: `Invalid path \`${arg}\`` };
+    } else {
+      paths.push(arg);
+    }
+  }
+
+  if (paths.length > COMMENT_COMMANDS.MAX_PATHS) {
+    return { name: 'invalid', error: `\`review\` accepts at most ${COMMENT_COMMANDS.MAX_PATHS} paths` };
+  }
+
+  return { name: 'review', paths, focus, dryRun };
+}
+
+/**
+ * Split a command line on whitespace, keeping double-quoted values together
+ */
+function tokenize(line: string): string[] {
+  if ((line.match(/"/g) || []).length % 2 !== 0) {
+    throw new Error('Unbalanced quotes in command');
+  }
+  return (line.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map(token => token.replace(/"/g, ''));
+}
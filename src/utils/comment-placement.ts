@@ -0,0 +1,91 @@
+import { CommentableHunk, ReviewComment } from '../types';
+
+/**
+ * Placement of AI-reported review comments on the pull request diff
+ *
+ * GitHub rejects a whole review when a single comment points at a line
+ * outside the diff. Comments are checked against the hunks first: a line the
+ * diff shows is kept, a line close to a change is moved onto the nearest
+ * changed line of the same hunk, and anything else is reported in the review
+ * summary instead of inline.
+ */
+
+export interface CommentPlacement {
+  /** Comments that can be posted inline, with corrected lines */
+  placed: ReviewComment[];
+  /** Comments that do not belong to any line of the diff */
+  unplaced: ReviewComment[];
+}
+
+/**
+ * Check review comments against the diff and fix their lines where possible
+ *
+ * @param comments - Comments as reported by the AI
+ * @param hunksByFile - Commentable hunks by file path, see DiffProcessor.getCommentableHunks
+ * @param maxDistance - How many lines a comment may be moved to reach a changed line
+ * @returns Comments split into placeable and unplaceable ones
+ */
+export function placeReviewComments(
+  comments: ReviewComment[],
+  hunksByFile: Map<string, CommentableHunk[]>,
+  maxDistance: number
+): CommentPlacement {
+  const placement: CommentPlacement = { placed: [], unplaced: [] };
+
+  for (const comment of comments) {
+    const path = hunksByFile.has(comment.path) ? comment.path : normalizePath(comment.path);
+    // Line 0 means the AI's location could not be read; it must not snap onto the first hunk
+    const line = comment.line > 0 ? findLine(hunksByFile.get(path) ?? [], comment.line, maxDistance) : undefined;
+
+    if (line === undefined) {
+      placement.unplaced.push(comment);
+    } else {
+      placement.placed.push({ ...comment, path, line });
+    }
+  }
+
+  return placement;
+}
+
+/**
+ * Render comments that could not be posted inline for the review summary
+ *
+ * @param comments - Unplaced comments
+ * @returns Markdown section, or an empty string if there are none
+ */
+export function renderUnplacedComments(comments: ReviewComment[]): string {
+  if (comments.length === 0) {
+    return '';
+  }
+
+  const findings = comments.map(comment =>
+    `**\`${comment.path}\`${comment.line > 0 ? ` line ${comment.line}` : ''}**\n\n${comment.body}`);
+  return `\n\n### Findings outside the diff\n\n${findings.join('\n\n---\n\n')}`;
+}
+
+function findLine(hunks: CommentableHunk[], line: number, maxDistance: number): number | undefined {
+  let best: { line: number; distance: number; } | undefined;
+
+  for (const hunk of hunks) {
+    if (hunk.commentable.includes(line)) {
+      return line;
+    }
+    // Only hunks the line is in, or close to, are candidates
+    if (line < hunk.newStart - maxDistance || line > hunk.newEnd + maxDistance) {
+      continue;
+    }
+    for (const changed of hunk.changed) {
+      const distance = Math.abs(changed - line);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { line: changed, distance };
+      }
+    }
+  }
+
+  return best?.line;
+}
+
+// The AI sometimes copies the diff's a/ and b/ prefixes into the path
+function normalizePath(path: string): string {
+  return path.trim().replace(/^\.\//, '').replace(/^[ab]\//, '');
+}
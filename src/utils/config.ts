@@ -1,29 +1,100 @@
 // Environment configuration with validation
 
-import { SUPPORTED_FILE_EXTENSIONS } from './constants';
+import * as path from 'path';
+import { AIProvider, CollaboratorPermission } from '../types';
+import {
+  SUPPORTED_FILE_EXTENSIONS,
+  DIFF_PROCESSING,
+  REVIEW_QUEUE,
+  WEBHOOK_DELIVERY,
+  HEALTH_CHECK,
+  REVIEW_CONTEXT,
+  RELATED_FILES,
+  COMMENT_COMMANDS,
+  COLLABORATOR_PERMISSIONS
+} from './constants';
 
 interface Config {
-  GITHUB_TOKEN: string;
+  GITHUB_AUTH_MODE: 'pat' | 'app';
+  GITHUB_TOKEN?: string;
+  GITHUB_APP_ID?: string;
+  GITHUB_PRIVATE_KEY?: string;
+  GITHUB_APP_SLUG?: string;
   WEBHOOK_SECRET: string;
+  /** All active webhook secrets, WEBHOOK_SECRET first */
+  WEBHOOK_SECRETS: string[];
   GEMINI_API_KEY?: string;
   DEEPSEEK_API_KEY?: string;
-  AI_PROVIDER: 'gemini' | 'deepseek';
+  AI_PROVIDER: AIProvider;
   MAX_DIFF_SIZE: number;
+  /** Chunks of MAX_DIFF_SIZE a large pull request may be split into before it is skipped */
+  REVIEW_MAX_CHUNKS: number;
+  /** Chunks reviewed in parallel */
+  REVIEW_CHUNK_CONCURRENCY: number;
+  /** Lines of surrounding code shown around each hunk when no enclosing function is found; 0 disables file context */
+  REVIEW_CONTEXT_LINES: number;
+  /** Bytes of changed-file content fetched for context per review */
+  REVIEW_CONTEXT_MAX_SIZE: number;
+  /** Estimated tokens of related files (imports and importers) added to the prompt; 0 disables them */
+  REVIEW_RELATED_FILES_MAX_TOKENS: number;
   LOG_LEVEL: 'debug' | 'info' | 'warn' | 'error';
   NODE_ENV: 'development' | 'production' | 'test';
   ALLOWED_REPOSITORIES?: string;
   ALLOWED_FILE_EXTENSIONS: string[];
+  STATE_STORE: 'file' | 'memory';
+  DATA_DIR: string;
+  REVIEW_QUEUE_CONCURRENCY: number;
+  REVIEW_QUEUE_MAX_ATTEMPTS: number;
+  REVIEW_QUEUE_BACKOFF_MS: number;
+  DELIVERY_TTL_MS: number;
+  REVIEW_DEBOUNCE_MS: number;
+  ADMIN_API_TOKEN?: string;
+  /** Minimum repository permission for @codecritics commands and follow-ups */
+  MANUAL_TRIGGER_MIN_PERMISSION: CollaboratorPermission;
+  /** Keep a progress comment updated for reviews requested from a PR comment */
+  REVIEW_PROGRESS_COMMENTS: boolean;
+  HEALTH_CACHE_TTL_MS: number;
+  HEALTH_MAX_BACKLOG: number;
 }
 
 function validateConfig(): Config {
-  const requiredEnvVars = ['GITHUB_TOKEN', 'WEBHOOK_SECRET'];
+  // GitHub App credentials take precedence; a personal access token is still supported
+  const githubAuthMode = (process.env.GITHUB_AUTH_MODE ||
+    (process.env.GITHUB_APP_ID ? 'app' : 'pat')) as Config['GITHUB_AUTH_MODE'];
+  if (githubAuthMode !== 'pat' && githubAuthMode !== 'app') {
+    throw new Error(`Invalid GITHUB_AUTH_MODE: ${githubAuthMode}. Expected 'pat' or 'app'`);
+  }
+
+  const requiredEnvVars = githubAuthMode === 'app'
+    ? ['GITHUB_APP_ID', 'GITHUB_PRIVATE_KEY']
+    : ['GITHUB_TOKEN'];
   const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
+
+  // WEBHOOK_SECRETS holds additional secrets that stay valid during a rotation
+  const webhookSecrets = [
+    process.env.WEBHOOK_SECRET,
+    ...(process.env.WEBHOOK_SECRETS?.split(',') || [])
+  ]
+    .map(secret => secret?.trim())
+    .filter((secret, index, all): secret is string => !!secret && all.indexOf(secret) === index);
+
+  if (webhookSecrets.length === 0) {
+    missingVars.push('WEBHOOK_SECRET');
+  }
   
   if (missingVars.length > 0) {
     throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
   }
 
-  const aiProvider = (process.env.AI_PROVIDER || 'gemini') as 'gemini' | 'deepseek';
+  const minPermission = (process.env.MANUAL_TRIGGER_MIN_PERMISSION ||
+    COMMENT_COMMANDS.DEFAULT_MIN_PERMISSION) as CollaboratorPermission;
+  if (minPermission === 'none' || !COLLABORATOR_PERMISSIONS.includes(minPermission)) {
+    throw new Error(
+      `Invalid MANUAL_TRIGGER_MIN_PERMISSION: ${minPermission}. Expected one of: ${COLLABORATOR_PERMISSIONS.slice(1).join(', ')}`
+    );
+  }
+
+  const aiProvider = (process.env.AI_PROVIDER || 'gemini') as AIProvider;
   
   // Validate AI provider configuration
   if (aiProvider === 'gemini' && !process.env.GEMINI_API_KEY) {
@@ -35,16 +106,44 @@ function validateConfig(): Config {
   }
 
   return {
-    GITHUB_TOKEN: process.env.GITHUB_TOKEN!,
-    WEBHOOK_SECRET: process.env.WEBHOOK_SECRET!,
+    GITHUB_AUTH_MODE: githubAuthMode,
+    GITHUB_TOKEN: process.env.GITHUB_TOKEN,
+    GITHUB_APP_ID: process.env.GITHUB_APP_ID,
+    // Private keys are usually stored with escaped newlines in env files
+    GITHUB_PRIVATE_KEY: process.env.GITHUB_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    GITHUB_APP_SLUG: process.env.GITHUB_APP_SLUG,
+    WEBHOOK_SECRET: webhookSecrets[0],
+    WEBHOOK_SECRETS: webhookSecrets,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
     DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY,
     AI_PROVIDER: aiProvider,
     MAX_DIFF_SIZE: parseInt(process.env.MAX_DIFF_SIZE || '100000'),
+    REVIEW_MAX_CHUNKS: parseInt(process.env.REVIEW_MAX_CHUNKS || String(DIFF_PROCESSING.DEFAULT_MAX_CHUNKS)),
+    REVIEW_CHUNK_CONCURRENCY: parseInt(
+      process.env.REVIEW_CHUNK_CONCURRENCY || String(DIFF_PROCESSING.DEFAULT_CHUNK_CONCURRENCY)
+    ),
+    REVIEW_CONTEXT_LINES: parseInt(process.env.REVIEW_CONTEXT_LINES || String(REVIEW_CONTEXT.DEFAULT_WINDOW_LINES)),
+    REVIEW_CONTEXT_MAX_SIZE: parseInt(process.env.REVIEW_CONTEXT_MAX_SIZE || String(REVIEW_CONTEXT.DEFAULT_MAX_SIZE)),
+    REVIEW_RELATED_FILES_MAX_TOKENS: parseInt(
+      process.env.REVIEW_RELATED_FILES_MAX_TOKENS || String(RELATED_FILES.DEFAULT_MAX_TOKENS)
+    ),
     LOG_LEVEL: (process.env.LOG_LEVEL || 'info') as Config['LOG_LEVEL'],
     NODE_ENV: (process.env.NODE_ENV || 'development') as Config['NODE_ENV'],
     ALLOWED_REPOSITORIES: process.env.ALLOWED_REPOSITORIES,
-    ALLOWED_FILE_EXTENSIONS: process.env.ALLOWED_FILE_EXTENSIONS?.split(',') || [...SUPPORTED_FILE_EXTENSIONS]
+    ALLOWED_FILE_EXTENSIONS: process.env.ALLOWED_FILE_EXTENSIONS?.split(',') || [...SUPPORTED_FILE_EXTENSIONS],
+    STATE_STORE: (process.env.STATE_STORE || 'file') as Config['STATE_STORE'],
+    // Vercel functions can only write to /tmp
+    DATA_DIR: process.env.DATA_DIR || (process.env.VERCEL ? '/tmp/code-critics' : path.join(process.cwd(), '.data')),
+    REVIEW_QUEUE_CONCURRENCY: parseInt(process.env.REVIEW_QUEUE_CONCURRENCY || String(REVIEW_QUEUE.DEFAULT_CONCURRENCY)),
+    REVIEW_QUEUE_MAX_ATTEMPTS: parseInt(process.env.REVIEW_QUEUE_MAX_ATTEMPTS || String(REVIEW_QUEUE.DEFAULT_MAX_ATTEMPTS)),
+    REVIEW_QUEUE_BACKOFF_MS: parseInt(process.env.REVIEW_QUEUE_BACKOFF_MS || String(REVIEW_QUEUE.DEFAULT_BACKOFF_MS)),
+    DELIVERY_TTL_MS: parseInt(process.env.DELIVERY_TTL_MS || String(WEBHOOK_DELIVERY.DEFAULT_TTL_MS)),
+    REVIEW_DEBOUNCE_MS: parseInt(process.env.REVIEW_DEBOUNCE_MS || String(REVIEW_QUEUE.DEFAULT_DEBOUNCE_MS)),
+    ADMIN_API_TOKEN: process.env.ADMIN_API_TOKEN || undefined,
+    MANUAL_TRIGGER_MIN_PERMISSION: minPermission,
+    REVIEW_PROGRESS_COMMENTS: process.env.REVIEW_PROGRESS_COMMENTS === 'true',
+    HEALTH_CACHE_TTL_MS: parseInt(process.env.HEALTH_CACHE_TTL_MS || String(HEALTH_CHECK.DEFAULT_CACHE_TTL_MS)),
+    HEALTH_MAX_BACKLOG: parseInt(process.env.HEALTH_MAX_BACKLOG || String(HEALTH_CHECK.DEFAULT_MAX_BACKLOG))
   };
 }
 
@@ -12,12 +12,109 @@ export const SUPPORTED_FILE_EXTENSIONS = [
 ] as const;
 
 export const DIFF_PROCESSING = {
-  LARGE_DIFF_MULTIPLIER: 1.5,
   MAX_CACHE_SIZE: 10000,
-  GC_THRESHOLD: 100000
+  GC_THRESHOLD: 100000,
+  DEFAULT_MAX_CHUNKS: 8, // AI requests a single review may use before it is skipped
+  DEFAULT_CHUNK_CONCURRENCY: 2,
+  LINE_SNAP_DISTANCE: 3 // Lines a review comment may be moved to reach a changed line
+} as const;
+
+export const REVIEW_CONTEXT = {
+  DEFAULT_WINDOW_LINES: 20,
+  DEFAULT_MAX_SIZE: 200000,
+  MAX_ENCLOSING_LINES: 150 // Larger enclosing functions fall back to the line window
+} as const;
+
+export const RELATED_FILES = {
+  DEFAULT_MAX_TOKENS: 4000,
+  SOURCE_EXTENSIONS: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py'],
+  MAX_IMPORTER_CANDIDATES: 30, // Nearby files read to find importers of the changed files
+  MAX_FETCH_SIZE: 500000,
+  MAX_EXCERPT_LINES: 30,
+  MAX_LINE_LENGTH: 200,
+  CHARS_PER_TOKEN: 4 // Rough estimate, good enough for a budget
+} as const;
+
+export const PR_INTENT = {
+  MAX_TITLE_LENGTH: 300,
+  MAX_BODY_LENGTH: 4000,
+  MAX_COMMITS: 30,
+  MAX_COMMIT_MESSAGE_LENGTH: 500,
+  MAX_LINKED_ISSUES: 3,
+  MAX_ISSUE_BODY_LENGTH: 2000
 } as const;
 
 export const RATE_LIMITING = {
   DEFAULT_MAX_REQUESTS: 10,
   DEFAULT_WINDOW_MS: 60 * 60 * 1000 // 1 hour
+} as const;
+
+export const REVIEW_QUEUE = {
+  DEFAULT_CONCURRENCY: 2,
+  DEFAULT_MAX_ATTEMPTS: 3,
+  DEFAULT_BACKOFF_MS: 5000,
+  DEFAULT_DEBOUNCE_MS: 15000,
+  MAX_BACKOFF_MS: 5 * 60 * 1000, // 5 minutes
+  COMPLETED_RETENTION_MS: 24 * 60 * 60 * 1000 // 24 hours
+} as const;
+
+export const WEBHOOK_DELIVERY = {
+  DEFAULT_TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+  PRUNE_INTERVAL_MS: 60 * 60 * 1000, // 1 hour
+  PROCESSING_LEASE_MS: 5 * 60 * 1000 // A delivery still processing after this was lost, e.g. in a crash
+} as const;
+
+export const GITHUB_APP = {
+  JWT_TTL_SECONDS: 9 * 60, // GitHub rejects app JWTs valid for more than 10 minutes
+  JWT_CLOCK_SKEW_SECONDS: 60,
+  TOKEN_REFRESH_MARGIN_MS: 5 * 60 * 1000, // Refresh installation tokens 5 minutes before expiry
+  DEFAULT_BOT_LOGIN: 'code-critics[bot]'
+} as const;
+
+export const HEALTH_CHECK = {
+  DEFAULT_CACHE_TTL_MS: 30 * 1000, // Outbound checks are reused for 30 seconds
+  PROBE_TIMEOUT_MS: 5000,
+  DEFAULT_MAX_BACKLOG: 50 // Pending reviews before readiness is degraded
+} as const;
+
+// Comment commands
+export const COMMENT_COMMANDS = {
+  MENTION: '@codecritics',
+  MAX_FOCUS_LENGTH: 500,
+  MAX_PATHS: 20,
+  FINDING_ID_LENGTH: 8, // Hex characters of the finding hash shown to users
+  DEFAULT_MIN_PERMISSION: 'write'
+} as const;
+
+// Repository permissions from lowest to highest
+export const COLLABORATOR_PERMISSIONS = ['none', 'read', 'triage', 'write', 'maintain', 'admin'] as const;
+
+// Finding severities from lowest to highest
+export const FINDING_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export const REPOSITORY_CONFIG = {
+  PATH: '.codecritics.yml',
+  GITATTRIBUTES_PATH: '.gitattributes',
+  MAX_FILE_SIZE: 65536,
+  MAX_PATTERNS: 100,
+  MAX_FOCUS_AREAS: 10,
+  MAX_INSTRUCTIONS_LENGTH: 4000,
+  MAX_COMMENTS: 100,
+  MAX_RULES: 50
+} as const;
+
+export const GENERATED_FILES = {
+  LOCKFILES: [
+    'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+    'composer.lock', 'Gemfile.lock', 'Cargo.lock', 'go.sum', 'poetry.lock', 'Pipfile.lock',
+    'uv.lock', 'Podfile.lock', 'packages.lock.json', 'mix.lock', 'pubspec.lock', 'flake.lock'
+  ],
+  BUILD_OUTPUTS: [
+    'dist/**', 'build/**', 'out/**', 'coverage/**', '**/node_modules/**', 'vendor/**',
+    '**/__snapshots__/**', '**/*.min.js', '**/*.min.css', '**/*.map', '**/*.pb.go', '**/*_pb2.py'
+  ],
+  // Markers tools put at the top of files they generate
+  HEADER_MARKERS: ['@generated', 'DO NOT EDIT', 'Code generated by', 'auto-generated', 'autogenerated'],
+  HEADER_LINES: 5,
+  MINIFIED_LINE_LENGTH: 500
 } as const;
\ No newline at end of file
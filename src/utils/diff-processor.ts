@@ -1,37 +1,39 @@
 /**
  * Utility for processing large diffs efficiently
  * Implements streaming processing to reduce memory usage
+ * and parses unified diffs into files, hunks and lines
  */
 
 import { Logger } from './logger';
+import { matchesAnyPathPattern } from './path-patterns';
+import { CommentableHunk, DiffFile, DiffHunk, DiffLine } from '../types';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const LINE_PREFIXES: Record<DiffLine['kind'], string> = {
+  context: ' ',
+  added: '+',
+  removed: '-',
+  no_newline: '\\'
+};
 
 export class DiffProcessor {
   private logger = new Logger();
   
   /**
-   * Process a large diff in chunks to reduce memory usage
+   * Split a diff into chunks on file boundaries
+   * 
+   * A single file larger than the chunk size becomes a chunk of its own.
    * 
    * @param diff - The full diff content
    * @param chunkSize - Maximum size of each chunk in bytes
-   * @param processor - Function to process each chunk
-   * @returns Promise resolving to combined results from all chunks
+   * @returns Chunks in diff order
    */
-  async processLargeDiffInChunks<T>(
-    diff: string, 
-    chunkSize: number = 50000,
-    processor: (chunk: string) => Promise<T>
-  ): Promise<T[]> {
-    this.logger.info('Processing large diff in chunks', { 
-      diffSize: diff.length, 
-      chunkSize 
-    });
-    
-    // Split diff into chunks based on file boundaries
+  splitDiffIntoChunks(diff: string, chunkSize: number = 50000): string[] {
     const chunks: string[] = [];
     let currentChunk = '';
     
-    // Split by diff headers to maintain file integrity
-    const diffParts = diff.split(/(?=diff --git )/);
+    // Split by file to maintain file integrity
+    const diffParts = this.parseDiff(diff).map(file => this.serializeDiff([file]));
     
     for (const part of diffParts) {
       // If adding this part would exceed chunk size, start a new chunk
@@ -58,19 +60,54 @@ export class DiffProcessor {
       chunks.push(currentChunk);
     }
     
+    return chunks;
+  }
+
+  /**
+   * Process a large diff in chunks to reduce memory usage
+   * 
+   * @param diff - The full diff content
+   * @param chunkSize - Maximum size of each chunk in bytes
+   * @param processor - Function to process each chunk, with its index and the chunk count
+   * @param concurrency - Maximum number of chunks processed at the same time
+   * @returns Promise resolving to results from all chunks, in diff order
+   */
+  async processLargeDiffInChunks<T>(
+    diff: string, 
+    chunkSize: number = 50000,
+    processor: (chunk: string, index: number, total: number) => Promise<T>,
+    concurrency: number = 1
+  ): Promise<T[]> {
+    this.logger.info('Processing large diff in chunks', { 
+      diffSize: diff.length, 
+      chunkSize 
+    });
+    
+    const chunks = this.splitDiffIntoChunks(diff, chunkSize);
     this.logger.info(`Split diff into ${chunks.length} chunks`);
     
-    // Process each chunk and collect results
-    const results: T[] = [];
+    // Workers take the next unprocessed chunk until none are left or one fails
+    const results: T[] = new Array(chunks.length);
+    let nextIndex = 0;
+    let failed = false;
+    const worker = async (): Promise<void> => {
+      while (!failed && nextIndex < chunks.length) {
+        const i = nextIndex++;
+        this.logger.debug(`Processing chunk ${i+1}/${chunks.length}`, { 
+          chunkSize: chunks[i].length 
+        });
+        try {
+          results[i] = await processor(chunks[i], i, chunks.length);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
     
-    for (let i = 0; i < chunks.length; i++) {
-      this.logger.debug(`Processing chunk ${i+1}/${chunks.length}`, { 
-        chunkSize: chunks[i].length 
-      });
-      
-      const result = await processor(chunks[i]);
-      results.push(result);
-    }
+    await Promise.all(
+      Array.from({ length: Math.min(Math.max(concurrency, 1), chunks.length) }, () => worker())
+    );
     
     return results;
   }
@@ -83,24 +120,262 @@ export class DiffProcessor {
    * @returns Filtered diff content
    */
   filterDiffByExtensions(diff: string, allowedExtensions: string[]): string {
-    // Split by diff headers
-    const diffParts = diff.split(/(?=diff --git )/);
-    
-    // Filter parts that match allowed extensions
-    const filteredParts = diffParts.filter(part => {
-      // Empty parts should be skipped
-      if (!part.trim()) return false;
-      
-      // Extract filename from diff header
-      const filenameMatch = part.match(/diff --git a\/(.*?) b\/(.*?)$/m);
-      if (!filenameMatch) return false;
-      
-      const filename = filenameMatch[1];
-      return allowedExtensions.some(ext => 
-        filename.toLowerCase().endsWith(ext.toLowerCase())
-      );
+    const files = this.parseDiff(diff).filter(file => {
+      const filename = getDiffFilePath(file).toLowerCase();
+      return allowedExtensions.some(ext => filename.endsWith(ext.toLowerCase()));
     });
     
-    return filteredParts.join('');
+    return this.serializeDiff(files);
+  }
+
+  /**
+   * Filter a diff to only include files matching paths or glob patterns
+   *
+   * @param diff - The full diff content
+   * @param patterns - Paths or glob patterns, e.g. `src/api` or `*.test.ts`
+   * @returns Filtered diff content
+   */
+  filterDiffByPaths(diff: string, patterns: string[]): string {
+    return this.filterDiff(diff, file => matchesAnyPathPattern(getDiffFilePath(file), patterns));
+  }
+
+  /**
+   * Filter a diff to only include the files a predicate accepts
+   *
+   * @param diff - The full diff content
+   * @param predicate - Called with each parsed file
+   * @returns Filtered diff content
+   */
+  filterDiff(diff: string, predicate: (file: DiffFile) => boolean): string {
+    return this.serializeDiff(this.parseDiff(diff).filter(predicate));
+  }
+
+  /**
+   * Collect the lines review comments can be attached to, per file and hunk
+   * 
+   * @param diff - Unified diff of the pull request
+   * @returns Hunks by new file path; deleted files have no entry
+   */
+  getCommentableHunks(diff: string): Map<string, CommentableHunk[]> {
+    const hunksByFile = new Map<string, CommentableHunk[]>();
+
+    for (const file of this.parseDiff(diff)) {
+      if (file.newPath === null) {
+        continue;
+      }
+      hunksByFile.set(file.newPath, file.hunks.map(hunk => {
+        const lines = hunk.lines.filter(line => line.newNumber !== undefined);
+        return {
+          newStart: hunk.newStart,
+          newEnd: hunk.newStart + hunk.newLines - 1,
+          commentable: lines.map(line => line.newNumber!),
+          changed: lines.filter(line => line.kind === 'added').map(line => line.newNumber!)
+        };
+      }));
+    }
+
+    return hunksByFile;
   }
+
+  /**
+   * Get the content of the new-side lines a diff shows
+   *
+   * @param diff - Unified diff
+   * @returns Line contents by new file path and line number; deleted files have no entry
+   */
+  getNewLineContents(diff: string): Map<string, Map<number, string>> {
+    const contentsByFile = new Map<string, Map<number, string>>();
+
+    for (const file of this.parseDiff(diff)) {
+      if (file.newPath === null) {
+        continue;
+      }
+      const contents = new Map<number, string>();
+      for (const line of file.hunks.flatMap(hunk => hunk.lines)) {
+        if (line.newNumber !== undefined) {
+          contents.set(line.newNumber, line.content);
+        }
+      }
+      contentsByFile.set(file.newPath, contents);
+    }
+
+    return contentsByFile;
+  }
+
+  /**
+   * Parse a git unified diff into files, hunks and lines
+   * 
+   * Text before the first `diff --git` header is dropped.
+   * 
+   * @param diff - Unified diff as produced by `git diff` or the GitHub API
+   * @returns Files in diff order
+   */
+  parseDiff(diff: string): DiffFile[] {
+    const files: DiffFile[] = [];
+    let file: DiffFile | undefined;
+    let hunk: DiffHunk | undefined;
+    let oldLine = 0;
+    let newLine = 0;
+
+    const lines = diff.split('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    for (const line of lines) {
+      if (line.startsWith('diff --git ')) {
+        file = createDiffFile(line);
+        files.push(file);
+        hunk = undefined;
+        continue;
+      }
+      if (!file) {
+        continue;
+      }
+
+      const range = line.match(HUNK_HEADER);
+      if (range) {
+        hunk = {
+          oldStart: parseInt(range[1], 10),
+          oldLines: range[2] === undefined ? 1 : parseInt(range[2], 10),
+          newStart: parseInt(range[3], 10),
+          newLines: range[4] === undefined ? 1 : parseInt(range[4], 10),
+          section: range[5],
+          lines: []
+        };
+        file.hunks.push(hunk);
+        oldLine = hunk.oldStart;
+        newLine = hunk.newStart;
+        continue;
+      }
+
+      // Extended headers only appear before the first hunk of a file
+      if (!hunk) {
+        applyDiffHeader(file, line);
+        continue;
+      }
+
+      const content = line.slice(1);
+      switch (line[0]) {
+        case '+':
+          hunk.lines.push({ kind: 'added', content, newNumber: newLine++ });
+          break;
+        case '-':
+          hunk.lines.push({ kind: 'removed', content, oldNumber: oldLine++ });
+          break;
+        case '\\':
+          hunk.lines.push({ kind: 'no_newline', content });
+          break;
+        default:
+          // Some tools strip the space of empty context lines
+          hunk.lines.push({ kind: 'context', content, oldNumber: oldLine++, newNumber: newLine++ });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Serialize parsed files back into a unified diff
+   * 
+   * `serializeDiff(parseDiff(diff))` reproduces a newline-terminated git diff exactly.
+   * 
+   * @param files - Files to serialize
+   * @returns Unified diff, with a trailing newline unless there are no files
+   */
+  serializeDiff(files: DiffFile[]): string {
+    const lines: string[] = [];
+
+    for (const file of files) {
+      lines.push(...file.headers);
+      for (const hunk of file.hunks) {
+        const section = hunk.section ? ` ${hunk.section}` : '';
+        lines.push(
+          `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@${section}`
+        );
+        lines.push(...hunk.lines.map(line => LINE_PREFIXES[line.kind] + line.content));
+      }
+    }
+
+    return lines.map(line => `${line}\n`).join('');
+  }
+}
+
+/**
+ * Path of a diff file, the new path unless the file was deleted
+ * 
+ * @param file - Parsed diff file
+ * @returns File path
+ */
+export function getDiffFilePath(file: DiffFile): string {
+  return (file.newPath ?? file.oldPath)!;
+}
+
+function createDiffFile(header: string): DiffFile {
+  const paths = header.match(/^diff --git "?a\/(.*?)"? "?b\/(.*?)"?$/);
+  return {
+    oldPath: paths ? paths[1] : null,
+    newPath: paths ? paths[2] : null,
+    status: 'modified',
+    binary: false,
+    headers: [header],
+    hunks: []
+  };
+}
+
+function applyDiffHeader(file: DiffFile, line: string): void {
+  file.headers.push(line);
+
+  const [, name, value] = line.match(/^(new file mode|deleted file mode|old mode|new mode|similarity index|rename from|rename to|copy from|copy to|---|\+\+\+) (.*)$/) ?? [];
+  switch (name) {
+    case 'new file mode':
+      file.status = 'added';
+      file.oldPath = null;
+      file.newMode = value;
+      break;
+    case 'deleted file mode':
+      file.status = 'deleted';
+      file.newPath = null;
+      file.oldMode = value;
+      break;
+    case 'old mode':
+      file.oldMode = value;
+      break;
+    case 'new mode':
+      file.newMode = value;
+      break;
+    case 'similarity index':
+      file.similarity = parseInt(value, 10);
+      break;
+    case 'rename from':
+    case 'copy from':
+      file.status = name === 'rename from' ? 'renamed' : 'copied';
+      file.oldPath = value;
+      break;
+    case 'rename to':
+    case 'copy to':
+      file.newPath = value;
+      break;
+    case '---':
+      file.oldPath = value === '/dev/null' ? null : stripDiffPrefix(value, 'a/');
+      break;
+    case '+++':
+      file.newPath = value === '/dev/null' ? null : stripDiffPrefix(value, 'b/');
+      break;
+    default:
+      if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true;
+      }
+  }
+}
+
+function stripDiffPrefix(path: string, prefix: string): string {
+  // Git appends a tab to paths containing spaces
+  const unquoted = path.replace(/\t$/, '').replace(/^"(.*)"$/, '$1');
+  return unquoted.startsWith(prefix) ? unquoted.slice(prefix.length) : unquoted;
+}
+
+// Git leaves out the line count when it is 1
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
 }
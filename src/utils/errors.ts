@@ -0,0 +1,48 @@
+/**
+ * Application error classes for predictable failure states
+ */
+
+/**
+ * Thrown when a review is cancelled, e.g. because a newer push superseded it
+ */
+export class ReviewCancelledError extends Error {
+  constructor(message: string = 'Review cancelled') {
+    super(message);
+    this.name = 'ReviewCancelledError';
+  }
+}
+
+/**
+ * Throw a ReviewCancelledError if the signal has been aborted
+ *
+ * @param signal - Optional abort signal of the running review
+ * @throws ReviewCancelledError if the signal is aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason instanceof ReviewCancelledError ? signal.reason : new ReviewCancelledError();
+  }
+}
+
+/**
+ * Error with an HTTP status code, thrown by API services and mapped to a response by the route
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly statusCode: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Turn a body that express.json() could not parse into a 400 ApiError
+ *
+ * @param error - Error passed on by the body parser
+ * @returns ApiError for malformed JSON, or undefined for any other error
+ */
+export function toBodyParseApiError(error: unknown): ApiError | undefined {
+  if (error instanceof SyntaxError && (error as { type?: string; }).type === 'entity.parse.failed') {
+    return new ApiError('Request body is not valid JSON', 400);
+  }
+  return undefined;
+}
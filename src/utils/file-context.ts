@@ -0,0 +1,123 @@
+import { DiffHunk } from '../types';
+import { REVIEW_CONTEXT } from './constants';
+
+/**
+ * Surrounding code for the hunks of a diff
+ *
+ * A unified diff has three lines of context, which is often not enough to
+ * see where a variable comes from. For each hunk the enclosing function or
+ * class of the head revision is shown, or a window of lines around the hunk
+ * when there is none or it is too large.
+ */
+
+/**
+ * Inclusive range of new-file line numbers
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+// Declarations that open a block: functions, methods, classes and arrow functions, but not control flow
+const DECLARATION_PATTERN = new RegExp([
+  '\\b(?:function|class|interface|def|func|fn|impl|struct|module)\\b',
+  '=>\\s*\\{?\\s*$',
+  '^\\s*(?!(?:if|for|while|switch|catch|with)\\b)(?:(?:public|private|protected|static|async|override|get|set)\\s+)*[\\w$]+\\s*\\([^;]*\\)\\s*(?::[^;{]+)?\\{\\s*$'
+].join('|'));
+const CLOSING_PATTERN = /^\s*(?:[}\])]|end\b)/;
+
+/**
+ * Work out which lines of a file to show around its hunks
+ *
+ * @param lines - Lines of the head revision
+ * @param hunks - Hunks of the file's diff
+ * @param windowLines - Lines before and after a hunk without an enclosing function
+ * @returns Sorted, non-overlapping ranges
+ */
+export function getContextRanges(lines: string[], hunks: DiffHunk[], windowLines: number): LineRange[] {
+  const ranges = hunks
+    .filter(hunk => hunk.newLines > 0)
+    .map(hunk => {
+      const start = hunk.newStart;
+      const end = hunk.newStart + hunk.newLines - 1;
+      return findEnclosingBlock(lines, start, end) ?? { start: start - windowLines, end: end + windowLines };
+    })
+    .map(range => ({ start: Math.max(range.start, 1), end: Math.min(range.end, lines.length) }))
+    .filter(range => range.start <= range.end)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: LineRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Render the context of a file for the review prompt
+ *
+ * @param path - File path
+ * @param lines - Lines of the head revision
+ * @param ranges - Ranges from getContextRanges
+ * @returns Delimited block with new-file line numbers, or an empty string without ranges
+ */
+export function renderFileContext(path: string, lines: string[], ranges: LineRange[]): string {
+  if (ranges.length === 0) {
+    return '';
+  }
+
+  const width = String(ranges[ranges.length - 1].end).length;
+  const sections = ranges.map(range => lines
+    .slice(range.start - 1, range.end)
+    // Keep file content from closing the block early
+    .map((line, index) => `${String(range.start + index).padStart(width)} | ${line.replace(/<<</g, '<< <')}`)
+    .join('\n'));
+
+  return `<<<CONTEXT ${path}>>>\n${sections.join('\n...\n')}\n<<<END CONTEXT>>>`;
+}
+
+function findEnclosingBlock(lines: string[], start: number, end: number): LineRange | undefined {
+  const hunkIndent = Math.min(...lines.slice(start - 1, end).filter(line => line.trim()).map(indentOf));
+  if (!Number.isFinite(hunkIndent) || hunkIndent === 0) {
+    return undefined;
+  }
+
+  // Walk up to the nearest declaration that is less indented than the hunk
+  let declaration: number | undefined;
+  for (let i = start - 1; i >= Math.max(1, start - REVIEW_CONTEXT.MAX_ENCLOSING_LINES); i--) {
+    const line = lines[i - 1];
+    if (!line.trim() || indentOf(line) >= hunkIndent) {
+      continue;
+    }
+    if (DECLARATION_PATTERN.test(line)) {
+      declaration = i;
+      break;
+    }
+    if (indentOf(line) === 0) {
+      return undefined;
+    }
+  }
+  if (declaration === undefined) {
+    return undefined;
+  }
+
+  // The block ends before the next line that is not indented further than the declaration
+  const declarationIndent = indentOf(lines[declaration - 1]);
+  const limit = Math.min(lines.length, declaration + REVIEW_CONTEXT.MAX_ENCLOSING_LINES);
+  for (let j = Math.max(end, declaration) + 1; j <= limit; j++) {
+    const line = lines[j - 1];
+    if (line.trim() && indentOf(line) <= declarationIndent) {
+      return { start: declaration, end: CLOSING_PATTERN.test(line) ? j : j - 1 };
+    }
+  }
+  return limit === lines.length ? { start: declaration, end: lines.length } : undefined;
+}
+
+function indentOf(line: string): number {
+  return line.match(/^[ \t]*/)![0].replace(/\t/g, '  ').length;
+}
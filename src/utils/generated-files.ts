@@ -0,0 +1,120 @@
+import { DiffFile, ExcludedFile, GitAttributeRule } from '../types';
+import { GENERATED_FILES } from './constants';
+import { getDiffFilePath } from './diff-processor';
+import { getGitAttributes, isGitAttributeSet } from './gitattributes';
+import { matchesAnyPathPattern } from './path-patterns';
+
+/**
+ * Detection of changed files that are not written by hand
+ *
+ * Lockfiles, build outputs, vendored code and generated sources are left out
+ * of reviews: findings on them are noise and they can be large enough to use
+ * up the diff budget. Checked in order: `.gitattributes`, the built-in lists
+ * of lockfiles and build outputs, then the content of the change.
+ */
+
+/**
+ * Work out whether a changed file was generated, vendored or minified
+ *
+ * `linguist-generated=false` or `linguist-vendored=false` in `.gitattributes`
+ * keeps a file that would otherwise be detected.
+ *
+ * @param file - Parsed diff file
+ * @param gitAttributes - Rules of the repository's `.gitattributes`
+ * @returns Why the file should be left out, or undefined to review it
+ */
+export function detectGeneratedFile(file: DiffFile, gitAttributes: GitAttributeRule[] = []): string | undefined {
+  const path = getDiffFilePath(file);
+  const attributes = getGitAttributes(path, gitAttributes);
+
+  if (isGitAttributeSet(attributes['linguist-generated'])) {
+    return 'marked `linguist-generated` in .gitattributes';
+  }
+  if (isGitAttributeSet(attributes['linguist-vendored'])) {
+    return 'marked `linguist-vendored` in .gitattributes';
+  }
+  if (attributes.diff === false) {
+    return 'marked `-diff` in .gitattributes';
+  }
+  if ([attributes['linguist-generated'], attributes['linguist-vendored']].some(value => value === false || value === 'false')) {
+    return undefined;
+  }
+
+  if ((GENERATED_FILES.LOCKFILES as readonly string[]).includes(path.slice(path.lastIndexOf('/') + 1))) {
+    return 'lockfile';
+  }
+  if (matchesAnyPathPattern(path, GENERATED_FILES.BUILD_OUTPUTS)) {
+    return 'build output';
+  }
+  if (hasGeneratedHeader(file)) {
+    return 'generated file header';
+  }
+  if (isMinified(file)) {
+    return 'minified content';
+  }
+  return undefined;
+}
+
+/**
+ * Split diff files into those to review and those left out
+ *
+ * @param files - Parsed diff files
+ * @param gitAttributes - Rules of the repository's `.gitattributes`
+ * @returns Files to review and the files left out with their reason
+ */
+export function partitionGeneratedFiles(
+  files: DiffFile[],
+  gitAttributes: GitAttributeRule[] = []
+): { kept: DiffFile[]; excluded: ExcludedFile[]; } {
+  const kept: DiffFile[] = [];
+  const excluded: ExcludedFile[] = [];
+
+  for (const file of files) {
+    const reason = detectGeneratedFile(file, gitAttributes);
+    if (reason) {
+      excluded.push({ path: getDiffFilePath(file), reason });
+    } else {
+      kept.push(file);
+    }
+  }
+
+  return { kept, excluded };
+}
+
+/**
+ * Render the files left out of a review for the review summary
+ *
+ * @param excluded - Files left out
+ * @returns Collapsible markdown section, or an empty string if there are none
+ */
+export function renderExcludedFiles(excluded: ExcludedFile[]): string {
+  if (excluded.length === 0) {
+    return '';
+  }
+
+  const files = excluded.map(file => `- \`${file.path}\`: ${file.reason}`).join('\n');
+  const count = `${excluded.length} file${excluded.length === 1 ? '' : 's'}`;
+  return `\n\n<details>\n<summary>${count} not reviewed (generated, vendored or lockfiles)</summary>\n\n${files}\n</details>`;
+}
+
+// Only the top of the new file is checked, where generators put their notice
+function hasGeneratedHeader(file: DiffFile): boolean {
+  const header = file.hunks
+    .flatMap(hunk => hunk.lines)
+    .filter(line => line.newNumber !== undefined && line.newNumber <= GENERATED_FILES.HEADER_LINES)
+    .map(line => line.content.toLowerCase());
+
+  return GENERATED_FILES.HEADER_MARKERS.some(marker =>
+    header.some(line => line.includes(marker.toLowerCase())));
+}
+
+// A single long line can be a data literal; most of the change being long lines is not
+function isMinified(file: DiffFile): boolean {
+  const added = file.hunks.flatMap(hunk => hunk.lines).filter(line => line.kind === 'added');
+  const total = added.reduce((sum, line) => sum + line.content.length, 0);
+  const inLongLines = added
+    .filter(line => line.content.length > GENERATED_FILES.MINIFIED_LINE_LENGTH)
+    .reduce((sum, line) => sum + line.content.length, 0);
+
+  return total > 0 && inLongLines / total > 0.5;
+}
@@ -0,0 +1,92 @@
+/**
+ * Parser for `.gitattributes` files
+ *
+ * Only what is needed to look up attributes of a path: patterns follow the
+ * gitignore rules for files (a pattern without `/` matches the file name at
+ * any depth) and later lines override earlier ones attribute by attribute.
+ */
+
+import { GitAttributeRule } from '../types';
+import { matchesPathPattern } from './path-patterns';
+
+// Built-in macro attributes
+const MACROS: Record<string, Record<string, boolean>> = {
+  binary: { diff: false, merge: false, text: false }
+};
+
+/**
+ * Parse the contents of a `.gitattributes` file
+ *
+ * @param content - File contents
+ * @returns Rules in file order
+ */
+export function parseGitAttributes(content: string): GitAttributeRule[] {
+  const rules: GitAttributeRule[] = [];
+
+  for (const line of content.split('\n')) {
+    const [pattern, ...tokens] = line.trim().split(/\s+/);
+    // Macro definitions and negative patterns are not supported by git either
+    if (!pattern || pattern.startsWith('#') || pattern.startsWith('[attr]') || pattern.startsWith('!')) {
+      continue;
+    }
+
+    const attributes: GitAttributeRule['attributes'] = {};
+    for (const token of tokens) {
+      if (token.startsWith('-')) {
+        attributes[token.slice(1)] = false;
+      } else if (token.startsWith('!')) {
+        attributes[token.slice(1)] = null;
+      } else if (token.includes('=')) {
+        const [name, value] = token.split(/=(.*)/);
+        attributes[name] = value;
+      } else {
+        Object.assign(attributes, MACROS[token], { [token]: true });
+      }
+    }
+    rules.push({ pattern, attributes });
+  }
+
+  return rules;
+}
+
+/**
+ * Look up the attributes of a path
+ *
+ * @param path - Repository-relative file path
+ * @param rules - Parsed `.gitattributes` rules
+ * @returns Attributes that are set, unset (false) or have a value
+ */
+export function getGitAttributes(path: string, rules: GitAttributeRule[]): Record<string, string | boolean> {
+  const attributes: Record<string, string | boolean> = {};
+
+  for (const rule of rules) {
+    if (!matchesGitPattern(path, rule.pattern)) {
+      continue;
+    }
+    for (const [name, value] of Object.entries(rule.attributes)) {
+      if (value === null) {
+        delete attributes[name];
+      } else {
+        attributes[name] = value;
+      }
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Check whether a gitattributes value turns a boolean attribute on
+ *
+ * @param value - Attribute value from getGitAttributes
+ * @returns True for `attr` and `attr=true`
+ */
+export function isGitAttributeSet(value: string | boolean | undefined): boolean {
+  return value === true || value === 'true';
+}
+
+function matchesGitPattern(path: string, pattern: string): boolean {
+  // Directories are not matched recursively, so `docs` does not cover `docs/a.md`
+  const anchored = pattern.replace(/\/$/, '').includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`;
+  return /[*?]/.test(anchored) ? matchesPathPattern(path, anchored) : path === anchored;
+}
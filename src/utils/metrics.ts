@@ -0,0 +1,300 @@
+/**
+ * Minimal Prometheus metrics registry
+ *
+ * Supports counters, gauges and histograms with labels and renders them in
+ * the Prometheus text exposition format (version 0.0.4) for GET /metrics.
+ */
+
+type Labels = Record<string, string | number>;
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default histogram buckets in seconds, tuned for AI requests taking seconds to minutes
+ */
+export const DEFAULT_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+abstract class Metric {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    protected readonly labelNames: readonly string[] = []
+  ) {}
+
+  abstract render(): string[];
+
+  abstract reset(): void;
+
+  protected key(labels: Labels = {}): string {
+    return this.labelNames.map(name => String(labels[name] ?? '')).join('\u0000');
+  }
+
+  protected formatLabels(key: string, extra: Labels = {}): string {
+    const values = this.labelNames.length > 0 ? key.split('\u0000') : [];
+    const pairs = [
+      ...this.labelNames.map((name, index) => [name, values[index]] as const),
+      ...Object.entries(extra).map(([name, value]) => [name, String(value)] as const)
+    ];
+    if (pairs.length === 0) {
+      return '';
+    }
+    return `{${pairs.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+  }
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  /**
+   * Increment the counter
+   *
+   * @param labels - Label values
+   * @param value - Amount to add (default 1)
+   */
+  inc(labels?: Labels, value: number = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  /**
+   * Get the current value for a label set
+   */
+  get(labels?: Labels): number {
+    return this.values.get(this.key(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values].map(([key, value]) => `${this.name}${this.formatLabels(key)} ${value}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  /**
+   * Set the gauge
+   *
+   * @param labels - Label values
+   * @param value - New value
+   */
+  set(labels: Labels | undefined, value: number): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  /**
+   * Get the current value for a label set
+   */
+  get(labels?: Labels): number | undefined {
+    return this.values.get(this.key(labels));
+  }
+
+  render(): string[] {
+    return [...this.values].map(([key, value]) => `${this.name}${this.formatLabels(key)} ${value}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values in cumulative buckets
+ */
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    private readonly bucketBounds: readonly number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  /**
+   * Record an observation
+   *
+   * @param labels - Label values
+   * @param value - Observed value
+   */
+  observe(labels: Labels | undefined, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.bucketBounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.bucketBounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start a timer that observes the elapsed time in seconds when stopped
+   *
+   * @returns Function recording the duration with the given labels
+   */
+  startTimer(): (labels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return labels => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      this.bucketBounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${this.formatLabels(key, { le: bound })} ${series.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${this.formatLabels(key, { le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${this.formatLabels(key)} ${series.sum}`);
+      lines.push(`${this.name}_count${this.formatLabels(key)} ${series.count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Collection of metrics rendered together
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   *
+   * @returns Exposition text
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Clear all recorded values (useful for testing)
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Application-wide registry exposed on GET /metrics
+ */
+export const metrics = new MetricsRegistry();
+
+export const webhooksReceived = metrics.counter(
+  'code_critics_webhooks_received_total',
+  'Verified webhook deliveries received, by event and action',
+  ['event', 'action']
+);
+
+export const webhookSignatureFailures = metrics.counter(
+  'code_critics_webhook_signature_failures_total',
+  'Webhook deliveries rejected because of an invalid signature'
+);
+
+export const reviewsStarted = metrics.counter(
+  'code_critics_reviews_started_total',
+  'Review attempts started'
+);
+
+export const reviewsFinished = metrics.counter(
+  'code_critics_reviews_finished_total',
+  'Review attempts finished, by result (succeeded, failed, skipped, cancelled) and skip reason',
+  ['result', 'reason']
+);
+
+export const aiRequests = metrics.counter(
+  'code_critics_ai_requests_total',
+  'AI completion requests, by provider and outcome (success, error, cancelled)',
+  ['provider', 'outcome']
+);
+
+export const aiRequestDuration = metrics.histogram(
+  'code_critics_ai_request_duration_seconds',
+  'AI completion request latency, by provider and outcome',
+  ['provider', 'outcome']
+);
+
+export const commentsPosted = metrics.counter(
+  'code_critics_comments_posted_total',
+  'Comments posted to GitHub, by kind (review_comment, inline, issue_comment, review_reply)',
+  ['kind']
+);
+
+export const githubRateLimitRemaining = metrics.gauge(
+  'code_critics_github_rate_limit_remaining',
+  'Remaining GitHub API requests in the current rate limit window'
+);
+
+export const githubRateLimitLimit = metrics.gauge(
+  'code_critics_github_rate_limit_limit',
+  'GitHub API request limit of the current rate limit window'
+);
@@ -0,0 +1,77 @@
+/**
+ * Matching of repository paths against user-supplied paths and glob patterns
+ *
+ * Supported syntax: `*` (any characters except `/`), `**` (any number of
+ * directories) and `?` (one character except `/`). A pattern without glob
+ * characters matches the file itself or everything below that directory; a
+ * pattern without `/` is matched against the file name only.
+ */
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob pattern to a regular expression
+ *
+ * @param pattern - Glob pattern
+ * @returns Anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` also matches no directory at all
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a file path matches a path or glob pattern
+ *
+ * @param filePath - Repository-relative file path
+ * @param pattern - Path or glob pattern
+ * @returns True if the file matches
+ */
+export function matchesPathPattern(filePath: string, pattern: string): boolean {
+  const normalized = pattern.trim().replace(/^\.?\//, '');
+  if (!normalized) {
+    return false;
+  }
+
+  if (!/[*?]/.test(normalized)) {
+    const directory = normalized.replace(/\/+$/, '');
+    return filePath === directory || filePath.startsWith(`${directory}/`);
+  }
+
+  let regex = patternCache.get(normalized);
+  if (!regex) {
+    regex = globToRegExp(normalized);
+    patternCache.set(normalized, regex);
+  }
+
+  const subject = normalized.includes('/') ? filePath : filePath.slice(filePath.lastIndexOf('/') + 1);
+  return regex.test(subject);
+}
+
+/**
+ * Check whether a file path matches any of the patterns
+ *
+ * @param filePath - Repository-relative file path
+ * @param patterns - Paths or glob patterns
+ * @returns True if at least one pattern matches
+ */
+export function matchesAnyPathPattern(filePath: string, patterns: readonly string[]): boolean {
+  return patterns.some(pattern => matchesPathPattern(filePath, pattern));
+}
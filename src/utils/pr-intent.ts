@@ -0,0 +1,83 @@
+import { PullRequestIntent } from '../types';
+import { PR_INTENT } from './constants';
+
+/**
+ * The stated intent of a pull request, for the review prompt
+ *
+ * Titles, descriptions, commit messages and issues are written by whoever
+ * opened the pull request, so they are untrusted: they are cut to length,
+ * stripped of hidden HTML comments and kept inside markers the text cannot
+ * close, and the prompt tells the model never to follow instructions in them.
+ */
+
+// GitHub's closing keywords, see "Linking a pull request to an issue"
+const CLOSING_REFERENCE = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\s+(?:https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/issues\/|([\w.-]+)\/([\w.-]+)#|#)(\d+)\b/gi;
+const MERGE_COMMIT = /^Merge (?:branch|pull request|remote-tracking branch) /;
+
+/**
+ * Find the issues of this repository a text says it fixes
+ *
+ * @param text - Pull request description and commit messages
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns Issue numbers in order of appearance, at most PR_INTENT.MAX_LINKED_ISSUES
+ */
+export function findLinkedIssues(text: string, owner: string, repo: string): number[] {
+  const issues: number[] = [];
+
+  for (const match of text.matchAll(CLOSING_REFERENCE)) {
+    const issueOwner = match[1] ?? match[3];
+    const issueRepo = match[2] ?? match[4];
+    // Issues of other repositories cannot be read with this installation's token
+    if (issueOwner && (issueOwner.toLowerCase() !== owner.toLowerCase() || issueRepo.toLowerCase() !== repo.toLowerCase())) {
+      continue;
+    }
+    const issue = parseInt(match[5]);
+    if (!issues.includes(issue)) {
+      issues.push(issue);
+    }
+  }
+
+  return issues.slice(0, PR_INTENT.MAX_LINKED_ISSUES);
+}
+
+/**
+ * Render the intent of a pull request for the review prompt
+ *
+ * @param intent - Title, description, commit messages and linked issues
+ * @returns Delimited block
+ */
+export function renderPullRequestIntent(intent: PullRequestIntent): string {
+  const sections = [
+    `Title: ${clean(intent.title, PR_INTENT.MAX_TITLE_LENGTH).replace(/\s+/g, ' ')}`,
+    `Description:\n${clean(intent.body, PR_INTENT.MAX_BODY_LENGTH) || '(none)'}`
+  ];
+
+  const commits = intent.commitMessages.filter(message => !MERGE_COMMIT.test(message));
+  if (commits.length > 0) {
+    const listed = commits
+      .slice(0, PR_INTENT.MAX_COMMITS)
+      .map(message => `- ${clean(message, PR_INTENT.MAX_COMMIT_MESSAGE_LENGTH).replace(/\n/g, '\n  ')}`);
+    if (commits.length > PR_INTENT.MAX_COMMITS) {
+      listed.push(`- (${commits.length - PR_INTENT.MAX_COMMITS} more commits)`);
+    }
+    sections.push(`Commit messages, oldest first:\n${listed.join('\n')}`);
+  }
+
+  for (const issue of intent.linkedIssues) {
+    const title = clean(issue.title, PR_INTENT.MAX_TITLE_LENGTH).replace(/\s+/g, ' ');
+    sections.push(`Linked issue #${issue.number}: ${title}\n${clean(issue.body, PR_INTENT.MAX_ISSUE_BODY_LENGTH) || '(no description)'}`);
+  }
+
+  return `<<<PR_INTENT>>>\n${sections.join('\n\n')}\n<<<END PR_INTENT>>>`;
+}
+
+// Hidden comments are dropped and markers neutralized before the length limit applies
+function clean(text: string, maxLength: number): string {
+  const visible = text
+    .replace(/\r\n/g, '\n')
+    .replace(/<!--[\s\S]*?(?:-->|$)/g, '')
+    .replace(/<<</g, '<< <')
+    .trim();
+  return visible.length > maxLength ? `${visible.slice(0, maxLength).trimEnd()}… (truncated)` : visible;
+}
@@ -0,0 +1,352 @@
+import { RelatedFile } from '../types';
+import { RELATED_FILES } from './constants';
+
+/**
+ * Import graph of changed files, for context beyond the diff
+ *
+ * Imports are found with regular expressions rather than a parser: this
+ * misses dynamic cases, but is cheap and good enough to pick which files to
+ * show. Only relative imports are resolved for TypeScript and JavaScript,
+ * since packages are not part of the repository; Python modules are looked
+ * up from the importing file's directory upwards.
+ */
+
+/**
+ * A numbered line of a related file
+ */
+export interface ExcerptLine {
+  line: number;
+  text: string;
+}
+
+/**
+ * A changed file linked to a file outside the change
+ */
+export interface ImportLink {
+  path: string;
+  relation: RelatedFile['relation'];
+  changedPath: string;
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+const JS_IMPORT_PATTERNS = [
+  /\b(?:import|export)\s+(?:type\s+)?[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,
+  /\bimport\s*['"]([^'"]+)['"]/g,
+  /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g
+];
+const PY_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+\(?([\w ,\t]+)/gm;
+const PY_IMPORT = /^[ \t]*import[ \t]+([\w.]+(?:[ \t]*,[ \t]*[\w.]+)*)/gm;
+
+const JS_EXPORTED_NAME = /^export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:abstract\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/;
+const JS_EXPORT_LIST = /^export\s*\{([^}]*)\}/;
+const JS_CLASS = /^export\s+(?:default\s+)?(?:abstract\s+)?class\b/;
+const JS_MEMBER = /^[ \t]+(?!(?:if|for|while|switch|catch|return|private)\b)(?:(?:public|protected|static|async|readonly|abstract|get|set)\s+)*[A-Za-z_$][\w$]*\??\s*(?:<[^>]*>)?\(/;
+const PY_DECLARATION = /^([ \t]*)(?:async[ \t]+)?(?:def|class)[ \t]+([A-Za-z_]\w*)/;
+
+/**
+ * Check whether related files can be found for a file
+ *
+ * @param path - File path
+ * @returns True for TypeScript, JavaScript and Python files
+ */
+export function isRelatedFileSource(path: string): boolean {
+  return RELATED_FILES.SOURCE_EXTENSIONS.some(extension => path.endsWith(extension));
+}
+
+/**
+ * Check whether two files are written in languages that can import each other
+ *
+ * @param a - File path
+ * @param b - File path
+ * @returns True if both are Python or both are TypeScript/JavaScript
+ */
+export function isSameLanguage(a: string, b: string): boolean {
+  return isPython(a) === isPython(b);
+}
+
+/**
+ * Find the module specifiers a file imports
+ *
+ * @param path - File path, which decides the language
+ * @param content - File contents
+ * @returns Unique specifiers as written, e.g. `./utils` or `.models.user`
+ */
+export function parseImports(path: string, content: string): string[] {
+  const specifiers = new Set<string>();
+
+  if (isPython(path)) {
+    for (const [, module, names] of content.matchAll(PY_FROM_IMPORT)) {
+      specifiers.add(module);
+      // `from pkg import mod` may import a submodule rather than a name
+      for (const name of names.split(',').map(part => part.trim().split(/\s+/)[0]).filter(Boolean)) {
+        specifiers.add(module.endsWith('.') ? module + name : `${module}.${name}`);
+      }
+    }
+    for (const [, modules] of content.matchAll(PY_IMPORT)) {
+      modules.split(',').forEach(module => specifiers.add(module.trim()));
+    }
+  } else {
+    for (const pattern of JS_IMPORT_PATTERNS) {
+      for (const [, specifier] of content.matchAll(pattern)) {
+        specifiers.add(specifier);
+      }
+    }
+  }
+
+  return [...specifiers];
+}
+
+/**
+ * Resolve an import to a file of the repository
+ *
+ * @param fromPath - Path of the importing file
+ * @param specifier - Specifier from parseImports
+ * @param files - Paths of all files in the repository
+ * @returns Path of the imported file, or undefined if it is not in the repository
+ */
+export function resolveImport(fromPath: string, specifier: string, files: ReadonlySet<string>): string | undefined {
+  const directory = dirname(fromPath);
+  let candidates: string[];
+
+  if (isPython(fromPath)) {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const module = specifier.slice(dots).replace(/\./g, '/');
+    const bases = dots > 0
+      ? [joinPath(directory, '../'.repeat(dots - 1) + module)]
+      : ancestors(directory).map(ancestor => joinPath(ancestor, module));
+    candidates = bases
+      .filter((base): base is string => base !== undefined)
+      .flatMap(base => [`${base}.py`, joinPath(base, '__init__.py') ?? '']);
+  } else {
+    if (!specifier.startsWith('.')) {
+      return undefined;
+    }
+    const base = joinPath(directory, specifier);
+    if (base === undefined) {
+      return undefined;
+    }
+    // TypeScript sources are imported with the extension of their compiled output
+    const source = base.replace(/\.(m|c)?jsx?$/, '');
+    candidates = [
+      base,
+      ...JS_EXTENSIONS.map(extension => source + extension),
+      ...JS_EXTENSIONS.map(extension => `${base}/index${extension}`)
+    ];
+  }
+
+  return candidates.find(candidate => candidate && files.has(candidate));
+}
+
+/**
+ * Names a file exports, to find where importers use it
+ *
+ * @param path - File path, which decides the language
+ * @param content - File contents
+ * @returns Exported names; top-level public definitions for Python
+ */
+export function getExportedNames(path: string, content: string): string[] {
+  const names = new Set<string>();
+
+  for (const line of content.split('\n')) {
+    if (isPython(path)) {
+      const match = line.match(PY_DECLARATION);
+      if (match && match[1] === '' && !match[2].startsWith('_')) {
+        names.add(match[2]);
+      }
+      continue;
+    }
+    const declaration = line.match(JS_EXPORTED_NAME);
+    if (declaration) {
+      names.add(declaration[1]);
+    }
+    const list = line.match(JS_EXPORT_LIST);
+    if (list) {
+      // `export { a as b }` exports b
+      list[1].split(',')
+        .map(part => part.trim().split(/\s+as\s+/).pop()!)
+        .filter(name => /^[A-Za-z_$][\w$]*$/.test(name))
+        .forEach(name => names.add(name));
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Public signatures of a file: exports and their class members, or Python definitions
+ *
+ * @param path - File path, which decides the language
+ * @param content - File contents
+ * @returns Numbered signature lines, at most RELATED_FILES.MAX_EXCERPT_LINES
+ */
+export function extractSignatures(path: string, content: string): ExcerptLine[] {
+  const signatures: ExcerptLine[] = [];
+  let inClass = false;
+
+  content.split('\n').forEach((text, index) => {
+    let isSignature: boolean;
+    if (isPython(path)) {
+      const match = text.match(PY_DECLARATION);
+      isSignature = !!match && match[1].length <= 4 && (!match[2].startsWith('_') || match[2] === '__init__');
+    } else if (/^export\b|^module\.exports\b/.test(text)) {
+      isSignature = true;
+      inClass = JS_CLASS.test(text) && !/}\s*$/.test(text);
+    } else {
+      if (/^}/.test(text)) {
+        inClass = false;
+      }
+      isSignature = inClass && JS_MEMBER.test(text) && text.match(/^\s*/)![0].length <= 4;
+    }
+    if (isSignature) {
+      signatures.push({ line: index + 1, text: text.replace(/\s*\{\s*$/, '') });
+    }
+  });
+
+  return signatures.slice(0, RELATED_FILES.MAX_EXCERPT_LINES);
+}
+
+/**
+ * Lines of an importer that use the names of a changed file
+ *
+ * @param content - Importer contents
+ * @param names - Names exported by the changed file, and its module name
+ * @returns Numbered lines, at most RELATED_FILES.MAX_EXCERPT_LINES
+ */
+export function extractUsages(content: string, names: string[]): ExcerptLine[] {
+  if (names.length === 0) {
+    return [];
+  }
+
+  const pattern = new RegExp(`(?<![\\w$])(?:${names.map(escapeRegExp).join('|')})(?![\\w$])`);
+  return content.split('\n')
+    .map((text, index) => ({ line: index + 1, text }))
+    .filter(({ text }) => pattern.test(text))
+    .slice(0, RELATED_FILES.MAX_EXCERPT_LINES);
+}
+
+/**
+ * Module name a file is imported by, e.g. `user` for `src/models/user.ts`
+ *
+ * @param path - File path
+ * @returns File name without extension, or the directory name for index files
+ */
+export function getModuleName(path: string): string {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1].replace(/\.[^.]+$/, '');
+  return (name === 'index' || name === '__init__') && segments.length > 1 ? segments[segments.length - 2] : name;
+}
+
+/**
+ * Order related files by relevance
+ *
+ * Importers rank above imported modules, since a changed contract breaks
+ * callers first; files linked to several changed files rank higher, and
+ * nearby files break ties.
+ *
+ * @param links - Links between changed files and other files
+ * @param changedPaths - Paths of the changed files
+ * @returns Related files, most relevant first
+ */
+export function rankRelatedFiles(links: ImportLink[], changedPaths: string[]): RelatedFile[] {
+  const files = new Map<string, RelatedFile>();
+
+  for (const link of links) {
+    const file = files.get(link.path) ?? { path: link.path, relation: link.relation, changedPaths: [], score: 0 };
+    if (!file.changedPaths.includes(link.changedPath)) {
+      file.changedPaths.push(link.changedPath);
+      file.score += link.relation === 'importer' ? 3 : 2;
+    }
+    if (link.relation === 'importer') {
+      file.relation = 'importer';
+    }
+    files.set(link.path, file);
+  }
+
+  const distance = (path: string): number => Math.min(...changedPaths.map(changed => getDirectoryDistance(path, changed)));
+  return [...files.values()].sort((a, b) =>
+    b.score - a.score || distance(a.path) - distance(b.path) || a.path.localeCompare(b.path));
+}
+
+/**
+ * Number of directories between two files
+ *
+ * @param a - File path
+ * @param b - File path
+ * @returns 0 for files in the same directory
+ */
+export function getDirectoryDistance(a: string, b: string): number {
+  const left = a.split('/').slice(0, -1);
+  const right = b.split('/').slice(0, -1);
+  let common = 0;
+  while (common < left.length && common < right.length && left[common] === right[common]) {
+    common++;
+  }
+  return left.length + right.length - 2 * common;
+}
+
+/**
+ * Render a related file for the review prompt
+ *
+ * @param file - Related file
+ * @param lines - Signatures or usages to show
+ * @returns Delimited block with line numbers
+ */
+export function renderRelatedFile(file: RelatedFile, lines: ExcerptLine[]): string {
+  const relation = file.relation === 'importer' ? 'imports' : 'imported by';
+  const width = String(lines[lines.length - 1]?.line ?? 0).length;
+  const body = lines
+    .map(({ line, text }) => {
+      const clipped = text.length > RELATED_FILES.MAX_LINE_LENGTH ? `${text.slice(0, RELATED_FILES.MAX_LINE_LENGTH)}…` : text;
+      // Keep file content from closing the block early
+      return `${String(line).padStart(width)} | ${clipped.replace(/<<</g, '<< <')}`;
+    })
+    .join('\n');
+
+  return `<<<RELATED ${file.path} (${relation} ${file.changedPaths.join(', ')})>>>\n${body}\n<<<END RELATED>>>`;
+}
+
+/**
+ * Rough number of tokens of a text
+ *
+ * @param text - Prompt text
+ * @returns Estimated tokens
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / RELATED_FILES.CHARS_PER_TOKEN);
+}
+
+function isPython(path: string): boolean {
+  return path.endsWith('.py');
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+// The directory itself, then every parent up to the repository root
+function ancestors(directory: string): string[] {
+  const segments = directory ? directory.split('/') : [];
+  return segments.map((_, index) => segments.slice(0, segments.length - index).join('/')).concat('');
+}
+
+// Undefined when the path leaves the repository
+function joinPath(directory: string, relative: string): string | undefined {
+  const segments = directory ? directory.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '..') {
+      if (segments.length === 0) {
+        return undefined;
+      }
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
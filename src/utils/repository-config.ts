@@ -0,0 +1,299 @@
+import * as yaml from 'js-yaml';
+import {
+  AIProvider,
+  FindingSeverity,
+  LoadedRepositoryConfig,
+  PathReviewSettings,
+  PathRule,
+  RepositoryConfig
+} from '../types';
+import config from './config';
+import { FINDING_SEVERITIES, REPOSITORY_CONFIG } from './constants';
+import { matchesAnyPathPattern } from './path-patterns';
+
+/**
+ * Schema and validation of `.codecritics.yml`
+ *
+ * Example:
+ *
+ * ```yaml
+ * include: ["src/**"]
+ * exclude: ["src/generated/**"]
+ * min_severity: medium
+ * focus: [security, performance]
+ * instructions: |
+ *   We target Node 20; do not suggest polyfills.
+ * max_comments: 20
+ * provider: deepseek
+ * model: deepseek-coder
+ * auto_review: false
+ * rules:
+ *   - paths: ["payments/**"]
+ *     min_severity: low
+ *     focus: security
+ *     instructions: Amounts are integers in cents.
+ *   - paths: ["infra/**"]
+ *     review: false
+ * ```
+ *
+ * Rules are ordered like CODEOWNERS: the last rule matching a file decides
+ * its settings. A file with any problem is ignored as a whole, so a typo
+ * never silently applies half of the settings.
+ */
+
+const AI_PROVIDERS: ReadonlyArray<AIProvider> = ['gemini', 'deepseek'];
+const MODEL_PATTERN = /^[\w.\-:/]+$/;
+
+type KeyValidator = (value: unknown, settings: RepositoryConfig) => string | string[] | undefined;
+
+// Settings a rule can override, validated like their repository-wide counterparts
+const RULE_KEYS = ['paths', 'instructions', 'min_severity', 'focus', 'review'];
+
+const KEY_VALIDATORS: Record<string, KeyValidator> = {
+  include: (value, settings) => readPatterns('include', value, patterns => { settings.include = patterns; }),
+  exclude: (value, settings) => readPatterns('exclude', value, patterns => { settings.exclude = patterns; }),
+  min_severity: (value, settings) => {
+    if (!FINDING_SEVERITIES.includes(value as FindingSeverity)) {
+      return `\`min_severity\` must be one of: ${FINDING_SEVERITIES.join(', ')}`;
+    }
+    settings.minSeverity = value as FindingSeverity;
+  },
+  focus: (value, settings) => {
+    const areas = typeof value === 'string' ? [value] : value;
+    if (!isStringList(areas) || areas.some(area => area.trim() === '')) {
+      return '`focus` must be a string or a list of strings';
+    }
+    if (areas.length > REPOSITORY_CONFIG.MAX_FOCUS_AREAS) {
+      return `\`focus\` accepts at most ${REPOSITORY_CONFIG.MAX_FOCUS_AREAS} areas`;
+    }
+    settings.focus = areas.map(area => area.trim());
+  },
+  instructions: (value, settings) => {
+    if (typeof value !== 'string') {
+      return '`instructions` must be a string';
+    }
+    if (value.length > REPOSITORY_CONFIG.MAX_INSTRUCTIONS_LENGTH) {
+      return `\`instructions\` is limited to ${REPOSITORY_CONFIG.MAX_INSTRUCTIONS_LENGTH} characters`;
+    }
+    settings.instructions = value.trim() || undefined;
+  },
+  max_comments: (value, settings) => {
+    if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > REPOSITORY_CONFIG.MAX_COMMENTS) {
+      return `\`max_comments\` must be a whole number from 1 to ${REPOSITORY_CONFIG.MAX_COMMENTS}`;
+    }
+    settings.maxComments = value as number;
+  },
+  provider: (value, settings) => {
+    if (!AI_PROVIDERS.includes(value as AIProvider)) {
+      return `\`provider\` must be one of: ${AI_PROVIDERS.join(', ')}`;
+    }
+    const apiKey = value === 'gemini' ? config.GEMINI_API_KEY : config.DEEPSEEK_API_KEY;
+    if (!apiKey) {
+      return `\`provider: ${value}\` is not available on this server`;
+    }
+    settings.provider = value as AIProvider;
+  },
+  model: (value, settings) => {
+    if (typeof value !== 'string' || !MODEL_PATTERN.test(value)) {
+      return '`model` must be a model name, e.g. `gemini-1.5-pro`';
+    }
+    settings.model = value;
+  },
+  auto_review: (value, settings) => {
+    if (typeof value !== 'boolean') {
+      return '`auto_review` must be true or false';
+    }
+    settings.autoReview = value;
+  },
+  rules: (value, settings) => {
+    if (!Array.isArray(value)) {
+      return '`rules` must be a list';
+    }
+    if (value.length > REPOSITORY_CONFIG.MAX_RULES) {
+      return `\`rules\` accepts at most ${REPOSITORY_CONFIG.MAX_RULES} rules`;
+    }
+    const errors: string[] = [];
+    settings.rules = value.map((rule, index) => readRule(rule, `rules[${index}]`, errors));
+    return errors;
+  }
+};
+
+/**
+ * Settings of a repository without a `.codecritics.yml`
+ *
+ * @returns Default settings; the global configuration applies to everything else
+ */
+export function getDefaultRepositoryConfig(): RepositoryConfig {
+  return {
+    include: [],
+    exclude: [],
+    minSeverity: 'low',
+    focus: [],
+    autoReview: true,
+    rules: []
+  };
+}
+
+/**
+ * Parse and validate the contents of a `.codecritics.yml`
+ *
+ * @param content - File contents
+ * @returns The settings, or the defaults together with every problem found
+ */
+export function parseRepositoryConfig(content: string): LoadedRepositoryConfig {
+  const source = REPOSITORY_CONFIG.PATH;
+  if (content.length > REPOSITORY_CONFIG.MAX_FILE_SIZE) {
+    return invalid(`The file is larger than ${REPOSITORY_CONFIG.MAX_FILE_SIZE} bytes`);
+  }
+
+  let document: unknown;
+  try {
+    // The JSON schema keeps YAML-specific types such as dates out of the settings
+    document = yaml.load(content, { schema: yaml.JSON_SCHEMA, filename: source });
+  } catch (error) {
+    return invalid(`Invalid YAML: ${(error as Error).message.split('\n')[0]}`);
+  }
+
+  if (document === null || document === undefined) {
+    return { config: getDefaultRepositoryConfig(), source, errors: [] };
+  }
+  if (typeof document !== 'object' || Array.isArray(document)) {
+    return invalid('The file must contain a mapping of settings');
+  }
+
+  const settings = getDefaultRepositoryConfig();
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(document)) {
+    const validate = KEY_VALIDATORS[key];
+    const error = validate
+      ? validate(value, settings)
+      : `Unknown setting \`${key}\`; expected one of: ${Object.keys(KEY_VALIDATORS).join(', ')}`;
+    if (error) {
+      errors.push(...[error].flat());
+    }
+  }
+  if (settings.model && !settings.provider) {
+    errors.push('`model` requires `provider`, since model names differ between providers');
+  }
+
+  return errors.length > 0 ? invalid(...errors) : { config: settings, source, errors: [] };
+}
+
+/**
+ * Check whether a changed file is in scope of the repository's globs and rules
+ *
+ * @param path - Path of the changed file
+ * @param settings - Repository settings
+ * @returns True if the file should be reviewed
+ */
+export function isPathInRepositoryScope(path: string, settings: RepositoryConfig): boolean {
+  if (settings.include.length > 0 && !matchesAnyPathPattern(path, settings.include)) {
+    return false;
+  }
+  return !matchesAnyPathPattern(path, settings.exclude) && resolvePathSettings(path, settings).review;
+}
+
+/**
+ * Work out the review settings of a changed file
+ *
+ * Starts from the repository-wide settings and applies the last rule whose
+ * globs match the file.
+ *
+ * @param path - Path of the changed file
+ * @param settings - Repository settings
+ * @returns Settings for the file
+ */
+export function resolvePathSettings(path: string, settings: RepositoryConfig): PathReviewSettings {
+  const rule = [...settings.rules].reverse().find(candidate => matchesAnyPathPattern(path, candidate.paths));
+  const instructions = [settings.instructions, rule?.instructions].filter(Boolean).join('\n\n');
+
+  return {
+    review: rule?.review ?? true,
+    minSeverity: rule?.minSeverity ?? settings.minSeverity,
+    focus: rule?.focus ?? settings.focus,
+    ...(instructions && { instructions })
+  };
+}
+
+/**
+ * Render the problems of an invalid `.codecritics.yml` as a PR comment
+ *
+ * @param loaded - Loaded settings with errors
+ * @returns Markdown comment
+ */
+export function renderRepositoryConfigErrors(loaded: LoadedRepositoryConfig): string {
+  return `## 🤖 Code Critics AI Review
+
+⚠️ **Invalid \`${loaded.source ?? REPOSITORY_CONFIG.PATH}\`**
+
+The configuration on the base branch was ignored and the default settings were used:
+
+${loaded.errors.map(error => `- ${error}`).join('\n')}
+
+---
+*Powered by Code Critics AI*
+<!-- code-critics-config-error -->`;
+}
+
+function invalid(...errors: string[]): LoadedRepositoryConfig {
+  return { config: getDefaultRepositoryConfig(), source: REPOSITORY_CONFIG.PATH, errors };
+}
+
+function readPatterns(key: string, value: unknown, apply: (patterns: string[]) => void): string | undefined {
+  const patterns = typeof value === 'string' ? [value] : value;
+  if (!isStringList(patterns) || patterns.some(pattern => pattern.trim() === '')) {
+    return `\`${key}\` must be a glob or a list of globs`;
+  }
+  if (patterns.length > REPOSITORY_CONFIG.MAX_PATTERNS) {
+    return `\`${key}\` accepts at most ${REPOSITORY_CONFIG.MAX_PATTERNS} globs`;
+  }
+  apply(patterns.map(pattern => pattern.trim()));
+}
+
+function readRule(value: unknown, label: string, errors: string[]): PathRule {
+  const rule: PathRule = { paths: [] };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`\`${label}\` must be a mapping with \`paths\``);
+    return rule;
+  }
+
+  // Rule settings reuse the repository-wide validators on a scratch copy
+  const scratch = getDefaultRepositoryConfig();
+  for (const [key, setting] of Object.entries(value)) {
+    let error: string | string[] | undefined;
+    if (!RULE_KEYS.includes(key)) {
+      error = `Unknown setting \`${key}\`; expected one of: ${RULE_KEYS.join(', ')}`;
+    } else if (key === 'paths') {
+      error = readPatterns('paths', setting, patterns => { rule.paths = patterns; });
+    } else if (key === 'review') {
+      if (typeof setting === 'boolean') {
+        rule.review = setting;
+      } else {
+        error = '`review` must be true or false';
+      }
+    } else {
+      error = KEY_VALIDATORS[key](setting, scratch);
+    }
+    for (const message of [error ?? []].flat()) {
+      errors.push(`In \`${label}\`: ${message}`);
+    }
+  }
+
+  if (!('paths' in value)) {
+    errors.push(`In \`${label}\`: \`paths\` is required`);
+  }
+  if ('instructions' in value) {
+    rule.instructions = scratch.instructions;
+  }
+  if ('min_severity' in value) {
+    rule.minSeverity = scratch.minSeverity;
+  }
+  if ('focus' in value) {
+    rule.focus = scratch.focus;
+  }
+  return rule;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,132 @@
+/**
+ * Pluggable key/value persistence for state that must survive restarts
+ * (review jobs, webhook deliveries, per-repository and per-PR state).
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import config from './config';
+
+/**
+ * Minimal asynchronous key/value store
+ */
+export interface StateStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<Array<[string, T]>>;
+}
+
+/**
+ * In-memory store, used for tests and when persistence is disabled
+ */
+export class MemoryStateStore<T> implements StateStore<T> {
+  private data = new Map<string, T>();
+
+  async get(key: string): Promise<T | undefined> {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    return [...this.data.entries()];
+  }
+}
+
+/**
+ * JSON file backed store
+ *
+ * The whole collection is kept in memory and written through to disk on every
+ * change. Writes are serialized and go through a temp file + rename so a crash
+ * mid-write never leaves a truncated file behind.
+ */
+export class FileStateStore<T> implements StateStore<T> {
+  private data: Map<string, T> | null = null;
+  private loading: Promise<Map<string, T>> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Absolute path of the JSON file backing this store
+   */
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string): Promise<T | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    (await this.load()).set(key, value);
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    const data = await this.load();
+    if (data.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  async entries(): Promise<Array<[string, T]>> {
+    return [...(await this.load()).entries()];
+  }
+
+  private load(): Promise<Map<string, T>> {
+    if (this.data) {
+      return Promise.resolve(this.data);
+    }
+
+    if (!this.loading) {
+      this.loading = fs.readFile(this.filePath, 'utf8')
+        .then(contents => new Map(Object.entries(JSON.parse(contents) as Record<string, T>)))
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') {
+            return new Map<string, T>();
+          }
+          throw error;
+        })
+        .then(data => {
+          this.data = data;
+          return data;
+        }, (error: unknown) => {
+          // Let the next call retry instead of failing until a restart
+          this.loading = null;
+          throw error;
+        });
+    }
+
+    return this.loading;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.data ?? []));
+    const write = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain;
+  }
+}
+
+/**
+ * Create a store for the given collection using the configured backend
+ *
+ * @param name - Collection name, used as the file name for file stores
+ * @returns StateStore instance
+ */
+export function createStateStore<T>(name: string): StateStore<T> {
+  if (config.STATE_STORE === 'memory') {
+    return new MemoryStateStore<T>();
+  }
+  return new FileStateStore<T>(path.join(config.DATA_DIR, `${name}.json`));
+}
@@ -4,10 +4,67 @@ import config from './config';
 
 const logger = new Logger();
 
+/**
+ * Compute the X-Hub-Signature-256 header value for a payload
+ *
+ * @param payload - Raw webhook body exactly as received
+ * @param secret - Webhook secret
+ * @returns Signature header value (sha256=<hex>)
+ */
+export function computeWebhookSignature(payload: string | Buffer, secret: string): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  // Buffers are hashed as-is; re-encoding would break non-UTF-8 payloads
+  if (typeof payload === 'string') {
+    hmac.update(payload, 'utf8');
+  } else {
+    hmac.update(payload);
+  }
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Constant-time comparison of a signature header against a secret
+ */
+function signatureMatches(payload: string | Buffer, signature: string, secret: string): boolean {
+  // Use crypto.timingSafeEqual to prevent timing attacks
+  const signatureBuffer = Buffer.from(signature);
+  const expectedBuffer = Buffer.from(computeWebhookSignature(payload, secret));
+
+  return signatureBuffer.length === expectedBuffer.length &&
+    crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
+}
+
+/**
+ * Short, non-reversible identifier of a secret that is safe to log
+ *
+ * @param secret - Webhook secret
+ * @returns First 8 hex characters of the secret's SHA-256 digest
+ */
+export function secretFingerprint(secret: string): string {
+  return crypto.createHash('sha256').update(secret, 'utf8').digest('hex').substring(0, 8);
+}
+
+/**
+ * Check the basic shape of a signature header
+ */
+function isWellFormedSignature(signature: string): boolean {
+  if (!signature) {
+    logger.warn('No signature provided in webhook request');
+    return false;
+  }
+
+  if (!signature.startsWith('sha256=')) {
+    logger.warn('Invalid signature format - signature does not start with sha256=');
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Verify GitHub webhook signature using HMAC-SHA256
  * 
- * @param payload - Webhook payload as string or buffer
+ * @param payload - Raw webhook body as string or buffer
  * @param signature - Signature from X-Hub-Signature-256 header
  * @param secret - Webhook secret for verification
  * @returns Boolean indicating if signature is valid
@@ -15,15 +72,9 @@ const logger = new Logger();
 export function verifyWebhookSignature(
   payload: string | Buffer,
   signature: string,
-  secret: string = config.WEBHOOK_SECRET
+  secret: string = config.WEBHOOK_SECRETS[0]
 ): boolean {
-  if (!signature) {
-    logger.warn('No signature provided in webhook request');
-    return false;
-  }
-
-  if (!signature.startsWith('sha256=')) {
-    logger.warn('Invalid signature format - signature does not start with sha256=');
+  if (!isWellFormedSignature(signature)) {
     return false;
   }
   
@@ -33,23 +84,7 @@ export function verifyWebhookSignature(
   }
 
   try {
-    const expectedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(typeof payload === 'string' ? payload : payload.toString('utf8'), 'utf8')
-      .digest('hex');
-    
-    const expectedHeader = `sha256=${expectedSignature}`;
-    
-    // Use crypto.timingSafeEqual to prevent timing attacks
-    const signatureBuffer = Buffer.from(signature);
-    const expectedBuffer = Buffer.from(expectedHeader);
-    
-    if (signatureBuffer.length !== expectedBuffer.length) {
-      logger.warn('Signature length mismatch');
-      return false;
-    }
-    
-    const isValid = crypto.timingSafeEqual(signatureBuffer, expectedBuffer);
+    const isValid = signatureMatches(payload, signature, secret);
     
     if (!isValid) {
       logger.warn('Webhook signature verification failed');
@@ -62,6 +97,73 @@ export function verifyWebhookSignature(
   }
 }
 
+/**
+ * Find which of the active webhook secrets signed a payload
+ *
+ * Several secrets can be active at once so WEBHOOK_SECRET can be rotated
+ * without downtime: add the new secret, update GitHub, then drop the old one.
+ *
+ * @param payload - Raw webhook body exactly as received
+ * @param signature - Signature from X-Hub-Signature-256 header
+ * @param secrets - Active webhook secrets
+ * @returns Index and fingerprint of the matching secret, or null if none matched
+ */
+export function findMatchingWebhookSecret(
+  payload: string | Buffer,
+  signature: string,
+  secrets: string[] = config.WEBHOOK_SECRETS
+): { index: number; fingerprint: string; } | null {
+  if (!isWellFormedSignature(signature)) {
+    return null;
+  }
+
+  if (secrets.length === 0) {
+    logger.error('Webhook secret is not configured');
+    return null;
+  }
+
+  try {
+    // Check every secret so timing does not reveal which one matched
+    let matchIndex = -1;
+    secrets.forEach((secret, index) => {
+      if (signatureMatches(payload, signature, secret) && matchIndex === -1) {
+        matchIndex = index;
+      }
+    });
+
+    if (matchIndex === -1) {
+      logger.warn('Webhook signature verification failed', { activeSecrets: secrets.length });
+      return null;
+    }
+
+    return { index: matchIndex, fingerprint: secretFingerprint(secrets[matchIndex]) };
+  } catch (error) {
+    logger.error('Error verifying webhook signature', error as Error);
+    return null;
+  }
+}
+
+/**
+ * Parse a raw webhook body after its signature has been verified
+ *
+ * GitHub sends either application/json or, when the webhook is configured for
+ * it, application/x-www-form-urlencoded with the JSON in a `payload` field.
+ *
+ * @param rawBody - Raw webhook body
+ * @param contentType - Content-Type header of the request
+ * @returns Parsed payload, to be narrowed by the caller
+ * @throws SyntaxError if the body is not valid JSON
+ */
+export function parseWebhookBody(rawBody: Buffer, contentType: string = 'application/json'): unknown {
+  const text = rawBody.toString('utf8');
+
+  if (contentType.startsWith('application/x-www-form-urlencoded')) {
+    return JSON.parse(new URLSearchParams(text).get('payload') ?? '');
+  }
+
+  return JSON.parse(text);
+}
+
 /**
  * Rate limiting cache for repositories
  */
@@ -239,7 +341,7 @@ export function shouldProcessEvent(payload: any): {
       };
     }
 
-    if (!payload.comment.body.includes('@codecritics')) {
+    if (!payload.comment.body.toLowerCase().includes('@codecritics')) {
       return {
         shouldProcess: false,
         reason: 'Comment does not mention @codecritics'
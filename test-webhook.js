@@ -61,7 +61,7 @@ async function testWebhook() {
       headers: {
         'Content-Type': 'application/json',
         'X-GitHub-Event': 'pull_request',
-        'X-GitHub-Delivery': 'test-delivery-123',
+        'X-GitHub-Delivery': `test-delivery-${Date.now()}`,
         'X-Hub-Signature-256': signature,
         'User-Agent': 'GitHub-Hookshot/test'
       },